@@ -0,0 +1,17 @@
+// Writes a GTFS feed built from the network data and the observed logs.
+//
+//   pnpm export-gtfs [path/to/logs.json] [path/to/gtfs.zip]
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseLogFile } from '../src/utils/logSchema'
+import { buildGtfsFeed, zipGtfsFeed } from '../src/utils/gtfs'
+
+const logsPath = process.argv[2] ?? 'data/logs.json'
+const outPath = process.argv[3] ?? 'gtfs.zip'
+
+const logs = parseLogFile(JSON.parse(readFileSync(logsPath, 'utf8')))
+const feed = buildGtfsFeed(logs)
+writeFileSync(outPath, zipGtfsFeed(feed))
+
+const trips = feed['trips.txt'].trim().split('\n').length - 1
+console.log(`Wrote ${outPath} from ${logs.length} logs (${trips} template trips)`)
@@ -0,0 +1,63 @@
+// Regenerates src/data/network.generated.ts from a GTFS feed: a directory
+// of .txt files (unzip a published feed first). It defaults to data/gtfs,
+// which is the source of truth for stations and lines. Nothing is written if the
+// feed fails validation.
+//
+//   pnpm import-gtfs [path/to/feed/]
+
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { GtfsValidationError, parseGtfsNetwork } from '../src/utils/gtfsImport'
+
+const feedPath = process.argv[2] ?? 'data/gtfs'
+const outPath = 'src/data/network.generated.ts'
+
+function readFeed(path: string): Record<string, string> {
+  const names = readdirSync(path).filter((name) => name.endsWith('.txt'))
+  return Object.fromEntries(names.map((name) => [name, readFileSync(join(path, name), 'utf8')]))
+}
+
+// Prints values as TypeScript in the repo's style: single quotes, trailing
+// commas, and anything short kept on one line
+const MAX_INLINE_LENGTH = 100
+
+function toSource(value: unknown, indent = ''): string {
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+  if (typeof value !== 'object' || value === null) return String(value)
+
+  const key = (k: string) => (/^[A-Za-z_$][\w$]*$/.test(k) ? k : toSource(k))
+  const items = Array.isArray(value)
+    ? value.map((v) => toSource(v, `${indent}  `))
+    : Object.entries(value).map(([k, v]) => `${key(k)}: ${toSource(v, `${indent}  `)}`)
+  if (items.length === 0) return Array.isArray(value) ? '[]' : '{}'
+
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{ ', ' }']
+  const inline = `${open}${items.join(', ')}${close}`
+  if (!inline.includes('\n') && indent.length + inline.length <= MAX_INLINE_LENGTH) return inline
+  return `${open.trim()}\n${items.map((item) => `${indent}  ${item},\n`).join('')}${indent}${close.trim()}`
+}
+
+try {
+  const { agencies, stations, lines, interchanges } = parseGtfsNetwork(readFeed(feedPath))
+  const source = [
+    `// Generated by scripts/import-gtfs.ts from ${feedPath} — edit the feed and`,
+    '// run `pnpm import-gtfs` instead of changing this file.',
+    '',
+    "import type { Agency, Interchange, Line, Station } from '../types'",
+    '',
+    `export const generatedAgencies: Agency[] = ${toSource(agencies)}`,
+    '',
+    `export const generatedStations: Station[] = ${toSource(stations)}`,
+    '',
+    `export const generatedLines: Line[] = ${toSource(lines)}`,
+    '',
+    `export const generatedInterchanges: Interchange[] = ${toSource(interchanges)}`,
+    '',
+  ].join('\n')
+  writeFileSync(outPath, source)
+  console.log(`Wrote ${outPath}: ${lines.length} lines, ${stations.length} stations, ${interchanges.length} interchanges`)
+} catch (err) {
+  if (!(err instanceof GtfsValidationError)) throw err
+  console.error(err.message)
+  process.exit(1)
+}
@@ -0,0 +1,72 @@
+// Minimal JSON log server for self-hosting or local testing. Serves the same
+// file the GitHub backend writes, so the two can be swapped freely.
+//
+//   pnpm log-server [path/to/logs.json] [port]
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import type { LogEntry } from '../src/types'
+import { logKey, normalizeLogs } from '../src/utils/logs'
+import { LOG_SCHEMA_VERSION, parseLogFile, serializeLogFile } from '../src/utils/logSchema'
+
+const filePath = process.argv[2] ?? 'data/logs.json'
+const port = Number(process.argv[3] ?? 8787)
+
+function readLogs(): LogEntry[] {
+  if (!existsSync(filePath)) return []
+  return parseLogFile(JSON.parse(readFileSync(filePath, 'utf8')))
+}
+
+function writeLogs(logs: LogEntry[]) {
+  writeFileSync(filePath, serializeLogFile(normalizeLogs(logs)) + '\n')
+}
+
+async function readBody<T>(req: IncomingMessage): Promise<T> {
+  let raw = ''
+  for await (const chunk of req) raw += chunk
+  return JSON.parse(raw)
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === 'OPTIONS') return send(res, 204)
+  if (req.url !== '/logs') return send(res, 404, { error: 'Not found' })
+
+  switch (req.method) {
+    case 'GET':
+      return send(res, 200, { version: LOG_SCHEMA_VERSION, entries: readLogs() })
+    case 'POST': {
+      const entries = await readBody<LogEntry[]>(req)
+      writeLogs([...readLogs(), ...entries])
+      return send(res, 204)
+    }
+    case 'PUT': {
+      const { previous, next } = await readBody<{ previous: LogEntry; next: LogEntry }>(req)
+      const key = logKey(previous)
+      writeLogs(readLogs().map((log) => (logKey(log) === key ? next : log)))
+      return send(res, 204)
+    }
+    case 'DELETE': {
+      const key = logKey(await readBody<LogEntry>(req))
+      writeLogs(readLogs().filter((log) => logKey(log) !== key))
+      return send(res, 204)
+    }
+    default:
+      return send(res, 405, { error: 'Method not allowed' })
+  }
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((err) => send(res, 400, { error: (err as Error).message }))
+}).listen(port, () => {
+  console.log(`Serving ${filePath} at http://localhost:${port}/logs`)
+})
@@ -0,0 +1,18 @@
+// Upgrades a log file to the current schema in place. v1 entries get ids
+// derived from their old dedupe key, so migrating twice — or on two
+// machines — gives the same result.
+//
+//   pnpm migrate-logs [path/to/logs.json]
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { normalizeLogs } from '../src/utils/logs'
+import { LOG_SCHEMA_VERSION, parseLogFile, serializeLogFile } from '../src/utils/logSchema'
+
+const filePath = process.argv[2] ?? 'data/logs.json'
+
+const data = JSON.parse(readFileSync(filePath, 'utf8'))
+const entries = normalizeLogs(parseLogFile(data))
+writeFileSync(filePath, serializeLogFile(entries) + '\n')
+
+const from = Array.isArray(data) ? 1 : data.version
+console.log(`Migrated ${entries.length} entries in ${filePath} from v${from} to v${LOG_SCHEMA_VERSION}`)
@@ -0,0 +1,57 @@
+// One-off repair for entries logged before dates were pinned to Bangkok time.
+//
+// The app used to take `date` from the UTC clock, so anything logged between
+// 00:00 and 07:00 Bangkok time got the previous day's date. Entries before
+// SERVICE_DAY_START_HOUR happen to be right already — they belong to the
+// previous service day — so only 03:00–06:59 is shifted forward a day.
+// `dayType` is then recomputed from the service date, keeping any day that
+// was marked as a holiday by hand.
+//
+// Run it once, before logging with a fixed build and before migrate-logs:
+//
+//   pnpm repair-dates [path/to/logs.json] [--dry-run]
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import type { LogEntryV1 } from '../src/types'
+import { getDayType } from '../src/utils/dayType'
+import { SERVICE_DAY_START_HOUR, addDays } from '../src/utils/time'
+
+// The offset between Bangkok and UTC — entries earlier than this were misdated
+const UTC_OFFSET_HOURS = 7
+
+const args = process.argv.slice(2)
+const dryRun = args.includes('--dry-run')
+const filePath = args.find((arg) => !arg.startsWith('--')) ?? 'data/logs.json'
+
+function repair(entry: LogEntryV1): LogEntryV1 {
+  const hour = Number(entry.time.slice(0, 2))
+  const misdated = hour >= SERVICE_DAY_START_HOUR && hour < UTC_OFFSET_HOURS
+  const date = misdated ? addDays(entry.date, 1) : entry.date
+  const dayType = entry.dayType === 'holiday' ? 'holiday' : getDayType(date)
+  return { ...entry, date, dayType }
+}
+
+const data = JSON.parse(readFileSync(filePath, 'utf8'))
+if (!Array.isArray(data)) {
+  // v2 timestamps were recorded correctly, so there is nothing to repair
+  console.error(`${filePath} is not a v1 log file — repair must run before migrate-logs`)
+  process.exit(1)
+}
+const logs: LogEntryV1[] = data
+let changed = 0
+const repaired = logs.map((entry) => {
+  const fixed = repair(entry)
+  if (fixed.date !== entry.date || fixed.dayType !== entry.dayType) {
+    changed++
+    console.log(
+      `${entry.station} ${entry.direction} ${entry.time}: `
+      + `${entry.date} ${entry.dayType} → ${fixed.date} ${fixed.dayType}`,
+    )
+  }
+  return fixed
+})
+
+console.log(`${changed} of ${logs.length} entries ${dryRun ? 'would change' : 'repaired'}`)
+if (!dryRun && changed > 0) {
+  writeFileSync(filePath, JSON.stringify(repaired, null, 2) + '\n')
+}
@@ -0,0 +1,184 @@
+// Replays recordings through the stop detector engines offline and prints
+// every detection with its offset, so margins and templates can be tuned
+// against real rides. WAV files go through the chime detector, matching the
+// chime template of --template (a line id or operator, or "none"; by default
+// that of --line). --margin overrides the template's own margin, as
+// createChimeDetector's `marginDb` does. .txt transcripts, one
+// "<seconds or m:ss> <text>" line per recognised phrase, through the
+// station matcher (every station, or just the ride given by --line, --from
+// and --to).
+//
+//   pnpm replay-detector [--margin 12] [--min-confidence 0.5] [--low 800]
+//     [--high 2500] [--min-duration 500] [--hop 16.7] [--template ID]
+//     [--line ID --from ID --to ID]
+//     fixture.wav transcript.txt ...
+
+import { readFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import type { Detection } from '../src/detection/engine'
+import {
+  CHIME_FFT_SIZE,
+  CHIME_HIGH_HZ,
+  CHIME_LOW_HZ,
+  CHIME_MIN_CONFIDENCE,
+  CHIME_MIN_DURATION_MS,
+  createChimeDetector,
+} from '../src/detection/chimeDetector'
+import { defaultTemplate } from '../src/detection/chimeTemplates'
+import { createTranscriptMatcher } from '../src/detection/transcriptMatcher'
+import { stations } from '../src/data/stations'
+import { findRide } from '../src/utils/network'
+
+// The browser analyses the latest samples once per animation frame
+const DEFAULT_HOP_MS = 1000 / 60
+
+const { values: options, positionals: files } = parseArgs({
+  allowPositionals: true,
+  options: {
+    margin: { type: 'string' },
+    'min-confidence': { type: 'string', default: String(CHIME_MIN_CONFIDENCE) },
+    low: { type: 'string', default: String(CHIME_LOW_HZ) },
+    high: { type: 'string', default: String(CHIME_HIGH_HZ) },
+    'min-duration': { type: 'string', default: String(CHIME_MIN_DURATION_MS) },
+    hop: { type: 'string', default: String(DEFAULT_HOP_MS) },
+    template: { type: 'string' },
+    line: { type: 'string' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+  },
+})
+
+if (files.length === 0) {
+  console.error('Usage: pnpm replay-detector [options] <recording.wav | transcript.txt>...')
+  process.exit(1)
+}
+
+interface Pcm {
+  sampleRate: number
+  samples: Float32Array // mono, -1–1
+}
+
+// PCM (8/16/24/32-bit) and 32-bit float WAV, mixed down to mono
+function decodeWav(bytes: Buffer): Pcm {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.toString('ascii', 0, 4) !== 'RIFF' || bytes.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('not a RIFF/WAVE file')
+  }
+
+  let format: { code: number; channels: number; sampleRate: number; bits: number } | null = null
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const id = bytes.toString('ascii', offset, offset + 4)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+    if (id === 'fmt ') {
+      format = {
+        code: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      }
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format code in the sub-format GUID
+      if (format.code === 0xfffe) format.code = view.getUint16(body + 24, true)
+    } else if (id === 'data') {
+      if (!format) throw new Error('data chunk before fmt chunk')
+      const { code, channels, sampleRate, bits } = format
+      const width = bits / 8
+      if (!(code === 1 && [1, 2, 3, 4].includes(width)) && !(code === 3 && bits === 32)) {
+        throw new Error(`unsupported format ${code} with ${bits} bits per sample`)
+      }
+      const read = (at: number): number => {
+        if (code === 3) return view.getFloat32(at, true)
+        if (width === 1) return (view.getUint8(at) - 128) / 128
+        if (width === 2) return view.getInt16(at, true) / 0x8000
+        if (width === 3) return (view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getInt8(at + 2) << 16)) / 0x800000
+        return view.getInt32(at, true) / 0x80000000
+      }
+      const frames = Math.floor(Math.min(size, bytes.length - body) / (width * channels))
+      const samples = new Float32Array(frames)
+      for (let i = 0; i < frames; i++) {
+        let sum = 0
+        for (let c = 0; c < channels; c++) sum += read(body + (i * channels + c) * width)
+        samples[i] = sum / channels
+      }
+      return { sampleRate, samples }
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2)
+  }
+  throw new Error('no data chunk')
+}
+
+function parseOffset(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d+(?:\.\d+)?)$/.exec(value)
+  return match ? (Number(match[1] ?? 0) * 60 + Number(match[2])) * 1000 : null
+}
+
+function formatOffset(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  const seconds = (ms % 60000) / 1000
+  return `${String(minutes).padStart(2, '0')}:${seconds.toFixed(3).padStart(6, '0')}`
+}
+
+function replayWav(path: string): Detection[] {
+  const { sampleRate, samples } = decodeWav(readFileSync(path))
+  const templateId = options.template ?? options.line ?? 'none'
+  const template = templateId === 'none' ? null : defaultTemplate(templateId)
+  if (templateId !== 'none' && !template) throw new Error(`no chime template for ${templateId}`)
+  const detector = createChimeDetector({
+    sampleRate,
+    lowHz: Number(options.low),
+    highHz: Number(options.high),
+    template,
+    marginDb: options.margin === undefined ? undefined : Number(options.margin),
+    minDurationMs: Number(options['min-duration']),
+    minConfidence: Number(options['min-confidence']),
+  })
+  const hopMs = Number(options.hop)
+  const detections: Detection[] = []
+  let rise = -Infinity
+  for (let timeMs = 0; ; timeMs += hopMs) {
+    const end = Math.round((timeMs / 1000) * sampleRate)
+    if (end > samples.length) break
+    if (end < CHIME_FFT_SIZE) continue
+    const detection = detector.process(samples.subarray(end - CHIME_FFT_SIZE, end), timeMs)
+    const { peakDb, floorDb } = detector.reading()
+    rise = Math.max(rise, peakDb - floorDb)
+    if (detection) detections.push(detection)
+  }
+  const duration = (samples.length / sampleRate).toFixed(1)
+  console.log(`${path}: ${duration} s at ${sampleRate} Hz, template ${templateId}, up to ${rise.toFixed(1)} dB over the floor`)
+  return detections
+}
+
+function replayTranscript(path: string): Detection[] {
+  const { line, from, to } = options
+  const route = line && from && to ? findRide(line, from, to)?.stations : stations
+  if (!route) throw new Error(`no ride on ${line} from ${from} to ${to}`)
+  const matcher = createTranscriptMatcher(route)
+
+  const detections: Detection[] = []
+  readFileSync(path, 'utf8').split(/\r?\n/).forEach((text, i) => {
+    if (!text.trim() || text.startsWith('#')) return
+    const [stamp, ...words] = text.trim().split(/\s+/)
+    const timeMs = parseOffset(stamp)
+    if (timeMs === null) throw new Error(`line ${i + 1}: expected "<seconds or m:ss> <text>"`)
+    const detection = matcher.process(words.join(' '), timeMs)
+    if (detection) detections.push(detection)
+  })
+  console.log(`${path}: ${route.length} stations to listen for`)
+  return detections
+}
+
+let failed = false
+for (const path of files) {
+  try {
+    const detections = path.toLowerCase().endsWith('.wav') ? replayWav(path) : replayTranscript(path)
+    for (const d of detections) console.log(`  ${formatOffset(d.timeMs)}  ${d.source.padEnd(6)}  ${d.detail}`)
+    console.log(`  ${detections.length} detections`)
+  } catch (err) {
+    console.error(`${path}: ${(err as Error).message}`)
+    failed = true
+  }
+}
+if (failed) process.exit(1)
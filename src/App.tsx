@@ -1,22 +1,28 @@
-import { useState } from 'react'
-import type { GitHubConfig } from './types'
+import { useMemo, useState } from 'react'
+import type { StoreConfig } from './types'
+import { createLogStore } from './services/logStore'
+import { DEFAULT_REPOSITORY } from './services/github'
 import { SetupScreen } from './components/SetupScreen'
 import { MainScreen } from './components/MainScreen'
 import './App.css'
 
 const STORAGE_KEY = 'transport-logger-config'
 
-function loadConfig(): GitHubConfig | null {
+function loadConfig(): StoreConfig | null {
   try {
     const stored = localStorage.getItem(STORAGE_KEY)
     if (!stored) return null
-    return JSON.parse(stored)
+    const config = JSON.parse(stored)
+    // Configs saved before backends were selectable only held a GitHub token
+    if (!config.backend) return { backend: 'github', ...DEFAULT_REPOSITORY, ...config }
+    if (config.backend === 'github') return { ...DEFAULT_REPOSITORY, ...config }
+    return config
   } catch {
     return null
   }
 }
 
-function saveConfig(config: GitHubConfig) {
+function saveConfig(config: StoreConfig) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
 }
 
@@ -25,9 +31,10 @@ function clearConfig() {
 }
 
 export default function App() {
-  const [config, setConfig] = useState<GitHubConfig | null>(loadConfig)
+  const [config, setConfig] = useState<StoreConfig | null>(loadConfig)
+  const store = useMemo(() => (config ? createLogStore(config) : null), [config])
 
-  const handleSave = (newConfig: GitHubConfig) => {
+  const handleSave = (newConfig: StoreConfig) => {
     saveConfig(newConfig)
     setConfig(newConfig)
   }
@@ -37,9 +44,9 @@ export default function App() {
     setConfig(null)
   }
 
-  if (!config) {
+  if (!store) {
     return <SetupScreen onSave={handleSave} />
   }
 
-  return <MainScreen config={config} onLogout={handleLogout} />
+  return <MainScreen store={store} onLogout={handleLogout} />
 }
@@ -0,0 +1,239 @@
+import { useState } from 'react'
+import type { DayType, Line, LogEntry } from '../types'
+import { stations } from '../data/stations'
+import { lines, getLine } from '../data/lines'
+import { SERVICE_HOURS, dailyCounts, headwayDistributions, stationHourCounts } from '../utils/analytics'
+import { findCoverageGaps } from '../utils/coverage'
+import { buildGtfsFeed, zipGtfsFeed } from '../utils/gtfs'
+import { downloadFile } from '../utils/download'
+import { getServiceDate } from '../utils/time'
+import { LineBadge } from './LineBadge'
+
+interface AnalyticsScreenProps {
+  logs: LogEntry[]
+  onClose: () => void
+}
+
+const DAY_TYPES: DayType[] = ['workday', 'weekend', 'holiday']
+
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 140
+const AXIS_GAP = 20
+
+function formatHour(hour: number): string {
+  return String(hour % 24).padStart(2, '0')
+}
+
+interface HeadwayChartProps {
+  logs: LogEntry[]
+  line: Line
+  direction: string
+  dayType: DayType
+}
+
+// Strip plot: every observed interval as a dot, the median as a bar
+function HeadwayChart({ logs, line, direction, dayType }: HeadwayChartProps) {
+  const distributions = headwayDistributions(logs, line.id, direction, dayType)
+  const maxGap = Math.max(10, ...distributions.flatMap((d) => d.gaps))
+  const columnWidth = (CHART_WIDTH - AXIS_GAP) / SERVICE_HOURS.length
+  const plotHeight = CHART_HEIGHT - AXIS_GAP
+  const y = (minutes: number) => plotHeight - (minutes / maxGap) * plotHeight
+
+  if (distributions.every((d) => d.gaps.length === 0)) {
+    return <p className="no-data">No intervals logged yet</p>
+  }
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img">
+      <text className="chart-label" x={0} y={y(maxGap) + 8}>{maxGap}′</text>
+      <text className="chart-label" x={0} y={plotHeight}>0′</text>
+      {distributions.map((d, i) => {
+        const x = AXIS_GAP + i * columnWidth + columnWidth / 2
+        return (
+          <g key={d.hour}>
+            {d.gaps.map((gap, j) => (
+              <circle
+                key={j}
+                className="chart-dot"
+                cx={x + ((j % 3) - 1) * (columnWidth / 5)}
+                cy={y(gap)}
+                r={2}
+              />
+            ))}
+            {d.median !== null && (
+              <line
+                className="chart-median"
+                x1={x - columnWidth / 2.5}
+                x2={x + columnWidth / 2.5}
+                y1={y(d.median)}
+                y2={y(d.median)}
+              />
+            )}
+            {i % 3 === 0 && (
+              <text className="chart-label" x={x} y={CHART_HEIGHT - 4} textAnchor="middle">
+                {formatHour(d.hour)}
+              </text>
+            )}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+interface CoverageHeatmapProps {
+  logs: LogEntry[]
+  lineIds: string[]
+  dayType: DayType
+}
+
+function CoverageHeatmap({ logs, lineIds, dayType }: CoverageHeatmapProps) {
+  const rows = stations.filter((s) => lineIds.includes(s.line))
+  const counts = stationHourCounts(logs, rows.map((s) => s.id), dayType)
+  const max = Math.max(1, ...counts.flat())
+
+  return (
+    <div className="heatmap" style={{ gridTemplateColumns: `minmax(6rem, auto) repeat(${SERVICE_HOURS.length}, 1fr)` }}>
+      <span />
+      {SERVICE_HOURS.map((hour) => (
+        <span key={hour} className="heatmap-hour">{hour % 3 === 0 ? formatHour(hour) : ''}</span>
+      ))}
+      {rows.map((station, i) => (
+        <div key={station.id} className="heatmap-row">
+          <span className="heatmap-station">{station.name}</span>
+          {counts[i].map((count, h) => (
+            <span
+              key={h}
+              className="heatmap-cell"
+              title={`${station.name} ${formatHour(SERVICE_HOURS[h])}:00 — ${count} logs`}
+              style={{ opacity: count === 0 ? 0.06 : 0.2 + 0.8 * (count / max) }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function TrendChart({ logs }: { logs: LogEntry[] }) {
+  const days = dailyCounts(logs)
+  if (days.length === 0) return <p className="no-data">No logs yet</p>
+
+  const max = Math.max(...days.map((d) => d.count))
+  const barWidth = CHART_WIDTH / days.length
+  const plotHeight = CHART_HEIGHT - AXIS_GAP
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img">
+      {days.map((d, i) => {
+        const height = (d.count / max) * plotHeight
+        return (
+          <rect
+            key={d.date}
+            className="chart-bar"
+            x={i * barWidth + barWidth * 0.1}
+            y={plotHeight - height}
+            width={barWidth * 0.8}
+            height={height}
+          >
+            <title>{`${d.date}: ${d.count} logs`}</title>
+          </rect>
+        )
+      })}
+      <text className="chart-label" x={0} y={CHART_HEIGHT - 4}>{days[0].date}</text>
+      <text className="chart-label" x={CHART_WIDTH} y={CHART_HEIGHT - 4} textAnchor="end">
+        {days[days.length - 1].date}
+      </text>
+    </svg>
+  )
+}
+
+const GAP_LIST_LENGTH = 10
+
+function CoverageGaps({ logs, lineFilter }: { logs: LogEntry[]; lineFilter: string }) {
+  // Rank over every line, then filter, so the list reflects the whole network's priorities
+  const gaps = findCoverageGaps(logs, Infinity)
+    .filter((gap) => !lineFilter || gap.line === lineFilter)
+    .slice(0, GAP_LIST_LENGTH)
+
+  return (
+    <ol className="coverage-gaps">
+      {gaps.map((gap) => {
+        const station = stations.find((s) => s.id === gap.station)
+        const direction = getLine(gap.line)?.directions.find((d) => d.id === gap.direction)
+        return (
+          <li key={`${gap.station}|${gap.direction}|${gap.dayType}|${gap.hour}`}>
+            {station?.name} → {direction?.label}
+            <span className="line-tag">
+              {' '}{gap.dayType} {formatHour(gap.hour)}:00 · {gap.dates} {gap.dates === 1 ? 'date' : 'dates'}
+            </span>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+export function AnalyticsScreen({ logs, onClose }: AnalyticsScreenProps) {
+  const [lineFilter, setLineFilter] = useState('')
+  const [dayType, setDayType] = useState<DayType>('workday')
+
+  const selectedLines = lines.filter((l) => !lineFilter || l.id === lineFilter)
+  const lineLogs = logs.filter((log) => !lineFilter || log.line === lineFilter)
+
+  const handleExportGtfs = () => {
+    const zip = zipGtfsFeed(buildGtfsFeed(logs))
+    downloadFile(`transport-logger-gtfs-${getServiceDate(new Date())}.zip`, zip, 'application/zip')
+  }
+
+  return (
+    <div className="analytics-screen">
+      <header>
+        <h1>Analytics</h1>
+        <div className="controls">
+          <button className="settings-btn" onClick={handleExportGtfs}>GTFS</button>
+          <button className="settings-btn" onClick={onClose}>Back</button>
+        </div>
+      </header>
+
+      <div className="history-filters">
+        <select value={lineFilter} onChange={(e) => setLineFilter(e.target.value)}>
+          <option value="">All lines</option>
+          {lines.map((l) => (
+            <option key={l.id} value={l.id}>{l.name}</option>
+          ))}
+        </select>
+        <select value={dayType} onChange={(e) => setDayType(e.target.value as DayType)}>
+          {DAY_TYPES.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+      </div>
+
+      <section className="analytics-section">
+        <h2>Logs per day</h2>
+        <TrendChart logs={lineLogs} />
+      </section>
+
+      <section className="analytics-section">
+        <h2>Headways by hour</h2>
+        {selectedLines.map((line) => line.directions.map((dir) => (
+          <div key={`${line.id}-${dir.id}`}>
+            <h3><LineBadge lineId={line.id} /> → {dir.label}</h3>
+            <HeadwayChart logs={logs} line={line} direction={dir.id} dayType={dayType} />
+          </div>
+        )))}
+      </section>
+
+      <section className="analytics-section">
+        <h2>Coverage by station and hour</h2>
+        <CoverageHeatmap logs={logs} lineIds={selectedLines.map((l) => l.id)} dayType={dayType} />
+      </section>
+
+      <section className="analytics-section">
+        <h2>What to log next</h2>
+        <CoverageGaps logs={logs} lineFilter={lineFilter} />
+      </section>
+    </div>
+  )
+}
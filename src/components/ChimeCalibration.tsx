@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from 'react'
+import { CHIME_FFT_SIZE, createChimeDetector } from '../detection/chimeDetector'
+import { buildTemplate, defaultTemplate, type ChimeTemplate, type HeardNote } from '../detection/chimeTemplates'
+import { loadChimeProfiles, saveChimeProfile, type ChimeProfile } from '../services/chimeProfiles'
+import { startMicrophone, type Microphone } from '../services/microphone'
+
+// Enough to outvote one chime drowned out by an announcement
+const CALIBRATION_CHIMES = 3
+
+function describe(template: ChimeTemplate): string {
+  return template.notes.map((n) => `${n.hz} Hz ${n.ms} ms`).join(' → ')
+}
+
+interface ChimeCalibrationProps {
+  lineId: string
+}
+
+/**
+ * Records a few door chimes on the current line and saves their pattern as
+ * the line's chime profile. Remount (key by line) when the line changes.
+ */
+export function ChimeCalibration({ lineId }: ChimeCalibrationProps) {
+  const [profile, setProfile] = useState<ChimeProfile | undefined>(() => loadChimeProfiles()[lineId])
+  const [heardCount, setHeardCount] = useState<number | null>(null) // null when not calibrating
+  const [error, setError] = useState<string | null>(null)
+  const micRef = useRef<Microphone | null>(null)
+  // Bumped by Cancel and unmount, so a microphone still opening is closed once it arrives
+  const attemptRef = useRef(0)
+
+  const builtIn = defaultTemplate(lineId)
+
+  const stopListening = () => {
+    attemptRef.current++
+    micRef.current?.stop()
+    micRef.current = null
+    setHeardCount(null)
+  }
+
+  const handleCalibrate = async () => {
+    setError(null)
+    setHeardCount(0)
+    const heard: HeardNote[][] = []
+    const attempt = ++attemptRef.current
+    try {
+      const mic = await startMicrophone(CHIME_FFT_SIZE, (sampleRate) => {
+        // Any tone counts; the rider is standing by the doors waiting for it
+        const detector = createChimeDetector({ sampleRate, template: null, minConfidence: 0 })
+        return (samples, timeMs) => {
+          if (!detector.process(samples, timeMs)) return
+          heard.push(detector.lastPhrase())
+          setHeardCount(heard.length)
+          if (heard.length < CALIBRATION_CHIMES) return
+          stopListening()
+          const template = buildTemplate(heard)
+          if (template) setProfile(saveChimeProfile(lineId, template)[lineId])
+        }
+      })
+      if (attempt !== attemptRef.current) {
+        mic.stop()
+        return
+      }
+      micRef.current = mic
+    } catch (err) {
+      if (attempt !== attemptRef.current) return
+      setError(`Microphone error: ${(err as Error).message}`)
+      setHeardCount(null)
+    }
+  }
+
+  const handleReset = () => {
+    saveChimeProfile(lineId, null)
+    setProfile(undefined)
+  }
+
+  // Release the microphone if the setup screen goes away mid-calibration
+  useEffect(() => () => {
+    attemptRef.current++
+    micRef.current?.stop()
+  }, [])
+
+  return (
+    <div className="poc-calibration">
+      <div className="poc-metric">
+        {profile
+          ? `Calibrated chime (${new Date(profile.calibratedAt).toLocaleDateString()}): ${describe(profile)}`
+          : builtIn
+            ? `Built-in chime, approximate: ${describe(builtIn)}`
+            : 'No chime pattern for this line — any sustained tone counts'}
+      </div>
+      {error && <p className="poc-error">{error}</p>}
+      {heardCount !== null ? (
+        <div className="poc-calibration-actions">
+          <span>Listening for door chimes: {heardCount} / {CALIBRATION_CHIMES}</span>
+          <button onClick={stopListening}>Cancel</button>
+        </div>
+      ) : (
+        <div className="poc-calibration-actions">
+          <button onClick={handleCalibrate}>Calibrate chime</button>
+          {profile && <button onClick={handleReset}>Reset</button>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import type { LogEntry } from '../types'
+import { parseLogCsv, type CsvImportRow } from '../utils/csv'
+import { getDeviceId } from '../services/device'
+
+interface CsvImportProps {
+  logs: LogEntry[]
+  onImport: (entries: LogEntry[]) => Promise<void>
+  onClose: () => void
+}
+
+export function CsvImport({ logs, onImport, onClose }: CsvImportProps) {
+  const [rows, setRows] = useState<CsvImportRow[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleFile = async (file: File | undefined) => {
+    setRows(null)
+    setError(null)
+    if (!file) return
+    try {
+      setRows(parseLogCsv(await file.text(), logs, getDeviceId()))
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const fresh = rows?.flatMap((r) => (r.status === 'new' ? [r.entry] : [])) ?? []
+  const duplicates = rows?.filter((r) => r.status === 'duplicate').length ?? 0
+  const invalid = rows?.filter((r) => r.status === 'error') ?? []
+
+  const handleImport = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await onImport(fresh)
+      onClose()
+    } catch (err) {
+      setError(`Failed to import: ${(err as Error).message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="csv-import">
+      <input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+      {error && <p className="error">{error}</p>}
+
+      {rows && (
+        <>
+          <p className="history-count">
+            {fresh.length} new · {duplicates} already logged · {invalid.length} with errors
+          </p>
+          {invalid.length > 0 && (
+            <ul className="csv-import-errors">
+              {invalid.map((r) => r.status === 'error' && (
+                <li key={r.row}>Row {r.row}: {r.errors.join('; ')}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      <div className="history-actions">
+        <button onClick={handleImport} disabled={saving || fresh.length === 0}>
+          {saving ? 'Importing...' : `Import ${fresh.length} ${fresh.length === 1 ? 'entry' : 'entries'}`}
+        </button>
+        <button onClick={onClose} disabled={saving}>Cancel</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { useState } from 'react'
+import type { DayType, LogEntry } from '../types'
+import { stations } from '../data/stations'
+import { lines, getLine } from '../data/lines'
+import { logKey } from '../utils/logs'
+import { withTime } from '../utils/logSchema'
+import { logsToCsv } from '../utils/csv'
+import { downloadFile } from '../utils/download'
+import { getServiceDate } from '../utils/time'
+import { CsvImport } from './CsvImport'
+
+interface HistoryScreenProps {
+  logs: LogEntry[]
+  pendingKeys: Set<string>
+  onUpdate: (previous: LogEntry, next: LogEntry) => Promise<void>
+  onDelete: (entry: LogEntry) => Promise<void>
+  onImport: (entries: LogEntry[]) => Promise<void>
+  onClose: () => void
+}
+
+const MAX_ROWS = 200
+const DAY_TYPES: DayType[] = ['workday', 'weekend', 'holiday']
+
+function stationName(id: string): string {
+  return stations.find((s) => s.id === id)?.name ?? id
+}
+
+function directionLabel(entry: LogEntry): string {
+  return getLine(entry.line)?.directions.find((d) => d.id === entry.direction)?.label ?? entry.direction
+}
+
+interface EditRowProps {
+  entry: LogEntry
+  onSave: (next: LogEntry) => void
+  onCancel: () => void
+}
+
+function EditRow({ entry, onSave, onCancel }: EditRowProps) {
+  const [time, setTime] = useState(entry.time)
+  const [direction, setDirection] = useState(entry.direction)
+  const [dayType, setDayType] = useState(entry.dayType)
+  const line = getLine(entry.line)
+
+  return (
+    <div className="history-row history-editing">
+      <span className="history-station">{stationName(entry.station)} · {entry.date}</span>
+      <div className="history-edit-fields">
+        <input type="time" value={time} onChange={(e) => setTime(e.target.value)} required />
+        <select value={direction} onChange={(e) => setDirection(e.target.value)}>
+          {line?.directions.map((d) => (
+            <option key={d.id} value={d.id}>→ {d.label}</option>
+          ))}
+        </select>
+        <select value={dayType} onChange={(e) => setDayType(e.target.value as DayType)}>
+          {DAY_TYPES.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+      </div>
+      <div className="history-actions">
+        <button onClick={() => onSave({ ...withTime(entry, time), direction, dayType })} disabled={!time}>
+          Save
+        </button>
+        <button onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  )
+}
+
+export function HistoryScreen({ logs, pendingKeys, onUpdate, onDelete, onImport, onClose }: HistoryScreenProps) {
+  const [lineFilter, setLineFilter] = useState('')
+  const [stationFilter, setStationFilter] = useState('')
+  const [directionFilter, setDirectionFilter] = useState('')
+  const [dateFilter, setDateFilter] = useState('')
+  const [editingKey, setEditingKey] = useState<string | null>(null)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const filterLine = lineFilter ? getLine(lineFilter) : null
+  const stationOptions = stations.filter((s) => !lineFilter || s.line === lineFilter)
+
+  const filtered = logs
+    .filter((log) =>
+      (!lineFilter || log.line === lineFilter)
+      && (!stationFilter || log.station === stationFilter)
+      && (!directionFilter || log.direction === directionFilter)
+      && (!dateFilter || log.date === dateFilter),
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  const visible = filtered.slice(0, MAX_ROWS)
+
+  const run = async (entry: LogEntry, action: () => Promise<void>) => {
+    setBusyKey(logKey(entry))
+    setError(null)
+    try {
+      await action()
+      setEditingKey(null)
+    } catch (err) {
+      setError(`Failed to save: ${(err as Error).message}`)
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  // Exports what the filters show, oldest first
+  const handleExport = () => {
+    const csv = logsToCsv([...filtered].reverse())
+    downloadFile(`transport-logs-${getServiceDate(new Date())}.csv`, csv, 'text/csv')
+  }
+
+  const handleDelete = (entry: LogEntry) => {
+    if (!window.confirm(`Delete ${entry.time} at ${stationName(entry.station)}?`)) return
+    run(entry, () => onDelete(entry))
+  }
+
+  return (
+    <div className="history-screen">
+      <header>
+        <h1>History</h1>
+        <button className="settings-btn" onClick={onClose}>Back</button>
+      </header>
+
+      <div className="history-filters">
+        <select
+          value={lineFilter}
+          onChange={(e) => {
+            setLineFilter(e.target.value)
+            setStationFilter('')
+            setDirectionFilter('')
+          }}
+        >
+          <option value="">All lines</option>
+          {lines.map((l) => (
+            <option key={l.id} value={l.id}>{l.name}</option>
+          ))}
+        </select>
+        <select value={stationFilter} onChange={(e) => setStationFilter(e.target.value)}>
+          <option value="">All stations</option>
+          {stationOptions.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <select
+          value={directionFilter}
+          onChange={(e) => setDirectionFilter(e.target.value)}
+          disabled={!filterLine}
+        >
+          <option value="">All directions</option>
+          {filterLine?.directions.map((d) => (
+            <option key={d.id} value={d.id}>→ {d.label}</option>
+          ))}
+        </select>
+        <input type="date" value={dateFilter} onChange={(e) => setDateFilter(e.target.value)} />
+      </div>
+
+      <div className="history-actions history-transfer">
+        <button onClick={handleExport} disabled={filtered.length === 0}>Export CSV</button>
+        <button onClick={() => setImporting(true)} disabled={importing}>Import CSV</button>
+      </div>
+
+      {importing && <CsvImport logs={logs} onImport={onImport} onClose={() => setImporting(false)} />}
+
+      {error && <p className="error">{error}</p>}
+
+      <p className="history-count">
+        {filtered.length} {filtered.length === 1 ? 'entry' : 'entries'}
+        {filtered.length > MAX_ROWS && ` — showing the latest ${MAX_ROWS}`}
+      </p>
+
+      {visible.map((entry) => {
+        const key = logKey(entry)
+        if (key === editingKey) {
+          return (
+            <EditRow
+              key={key}
+              entry={entry}
+              onSave={(next) => run(entry, () => onUpdate(entry, next))}
+              onCancel={() => setEditingKey(null)}
+            />
+          )
+        }
+        return (
+          <div key={key} className="history-row">
+            <span className="history-time">{entry.time}</span>
+            <span className="history-station">
+              {stationName(entry.station)} → {directionLabel(entry)}
+              <span className="line-tag"> {entry.date} · {entry.dayType}</span>
+            </span>
+            {pendingKeys.has(key) && <span className="sync-tag sync-pending">Pending</span>}
+            <div className="history-actions">
+              <button onClick={() => setEditingKey(key)} disabled={busyKey !== null}>Edit</button>
+              <button onClick={() => handleDelete(entry)} disabled={busyKey !== null}>
+                {busyKey === key ? 'Saving...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
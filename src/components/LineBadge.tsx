@@ -0,0 +1,17 @@
+import { getLine } from '../data/lines'
+
+// Dark text on light line colours (e.g. Yellow, Gold), white on the rest
+function textColorFor(background: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(background.slice(i, i + 2), 16))
+  return 0.299 * r + 0.587 * g + 0.114 * b > 160 ? '#1f2937' : 'white'
+}
+
+export function LineBadge({ lineId }: { lineId: string }) {
+  const line = getLine(lineId)
+  if (!line) return null
+  return (
+    <span className="line-badge" style={{ background: line.color, color: textColorFor(line.color) }}>
+      {line.name}
+    </span>
+  )
+}
@@ -1,15 +1,31 @@
-import { useState, useEffect, useCallback } from 'react'
-import type { GitHubConfig, LogEntry, Station, DayType } from '../types'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { DirectionInfo, LogEntry, Station, DayType } from '../types'
 import { stations } from '../data/stations'
 import { lines, getLine } from '../data/lines'
-import { findNearbyStations, type StationWithDistance } from '../utils/geo'
-import { getDayType } from '../utils/dayType'
-import { predictArrivals } from '../utils/prediction'
-import { fetchLogs, appendLog } from '../services/github'
+import { findNearbyComplexes, type ComplexWithDistance } from '../utils/geo'
+import { getComplex, getComplexes, type StationComplex } from '../utils/complexes'
+import { getDayDetail, toDayType } from '../utils/dayType'
+import { getServiceDate, timeToMinutes, toBangkokTime, toServiceHour } from '../utils/time'
+import { getHoliday } from '../data/holidays'
+import { loadHolidayOverrides, setHolidayOverride } from '../services/holidayOverrides'
+import { forecastHour, type PredictedSlot } from '../utils/prediction'
+import { scoreCoverage } from '../utils/coverage'
+import type { LogStore } from '../services/logStore'
+import { loadOutbox, enqueueLog, flushOutbox, dequeueLog, requeueLog } from '../services/outbox'
+import { loadReviewQueue, queueForReview, removeFromReview } from '../services/reviewQueue'
+import { logKey, mergeLogs } from '../utils/logs'
+import { createLogEntry } from '../utils/logSchema'
+import { getDeviceId } from '../services/device'
+import { createTripTracker, type TripArrival, type TripState } from '../detection/tripTracker'
 import { StopDetectorPoC } from './StopDetectorPoC'
+import { HistoryScreen } from './HistoryScreen'
+import { AnalyticsScreen } from './AnalyticsScreen'
+import { PlannerScreen } from './PlannerScreen'
+import { ReviewQueue } from './ReviewQueue'
+import { LineBadge } from './LineBadge'
 
 interface MainScreenProps {
-  config: GitHubConfig
+  store: LogStore
   onLogout: () => void
 }
 
@@ -18,16 +34,34 @@ function formatDistance(metres: number): string {
   return `${(metres / 1000).toFixed(1)} km`
 }
 
-export function MainScreen({ config, onLogout }: MainScreenProps) {
+const SYNC_RETRY_MS = 30000
+const UNDO_TIMEOUT_MS = 6000
+
+function tripArrivalNote({ from }: TripArrival): string {
+  return from ? `Auto: GPS stop after ${from.name}` : 'Auto: GPS stop on line'
+}
+
+const PREDICTION_SOURCES: Record<PredictedSlot['kind'], (samples: number) => string> = {
+  observed: (samples) => `${samples} logs at this station`,
+  derived: (samples) => `Derived from ${samples} logs at earlier stations`,
+  headway: (samples) => `Estimated from line headway (${samples} intervals)`,
+}
+
+export function MainScreen({ store, onLogout }: MainScreenProps) {
   const [allLogs, setAllLogs] = useState<LogEntry[]>([])
-  const [selectedStation, setSelectedStation] = useState<Station | null>(null)
-  const [nearbyStations, setNearbyStations] = useState<StationWithDistance[]>([])
-  const [selectedDistance, setSelectedDistance] = useState<number | null>(null)
-  const [isHoliday, setIsHoliday] = useState(false)
+  const [selectedComplex, setSelectedComplex] = useState<StationComplex | null>(null)
+  const [nearbyComplexes, setNearbyComplexes] = useState<ComplexWithDistance[]>([])
+  const [trip, setTrip] = useState<TripState | null>(null)
+  const [logTripStops, setLogTripStops] = useState(false)
+  const [holidayOverrides, setHolidayOverrides] = useState(loadHolidayOverrides)
   const [loading, setLoading] = useState(true)
-  const [logging, setLogging] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [lastLogged, setLastLogged] = useState<string | null>(null)
+  const [pending, setPending] = useState<LogEntry[]>(loadOutbox)
+  const [toReview, setToReview] = useState<LogEntry[]>(loadReviewQueue)
+  const [recentKeys, setRecentKeys] = useState<string[]>([])
+  const [undoEntry, setUndoEntry] = useState<LogEntry | null>(null)
+  const [view, setView] = useState<'main' | 'history' | 'analytics' | 'planner'>('main')
+  const [syncError, setSyncError] = useState<string | null>(null)
   const [showPicker, setShowPicker] = useState(false)
   const [now, setNow] = useState(() => new Date())
 
@@ -37,56 +71,103 @@ export function MainScreen({ config, onLogout }: MainScreenProps) {
     return () => clearInterval(id)
   }, [])
 
-  const dayType: DayType = getDayType(now, isHoliday)
-  const currentHour = now.getHours()
-  const hh = String(now.getHours()).padStart(2, '0')
-  const mm = String(now.getMinutes()).padStart(2, '0')
-  const ss = String(now.getSeconds()).padStart(2, '0')
-  const currentDate = now.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })
+  const clock = toBangkokTime(now)
+  const today = getServiceDate(now)
+  const holiday = getHoliday(today)
+  const dayDetail = getDayDetail(today, holidayOverrides[today])
+  const dayType: DayType = toDayType(dayDetail)
+  const currentHour = toServiceHour(clock.hours)
+  const hh = String(clock.hours).padStart(2, '0')
+  const mm = String(clock.minutes).padStart(2, '0')
+  const ss = String(clock.seconds).padStart(2, '0')
+  const currentDate = now.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Asia/Bangkok' })
 
-  // Load logs from GitHub
+  const sync = useCallback(async () => {
+    try {
+      await flushOutbox(store)
+      setSyncError(null)
+    } catch (err) {
+      setSyncError((err as Error).message)
+    } finally {
+      setPending(loadOutbox())
+    }
+  }, [store])
+
+  // Load logs from the store; queued entries show up straight away
   useEffect(() => {
-    fetchLogs(config)
-      .then(setAllLogs)
-      .catch((err) => setError(`Failed to load logs: ${err.message}`))
+    const queued = loadOutbox()
+    store.list()
+      .then((logs) => setAllLogs(mergeLogs(logs, queued)))
+      .catch((err) => {
+        setAllLogs(queued)
+        setError(`Failed to load logs: ${err.message}`)
+      })
       .finally(() => setLoading(false))
-  }, [config])
+    sync()
+  }, [store, sync])
+
+  // Retry queued entries when connectivity returns
+  useEffect(() => {
+    if (pending.length === 0) return
+    const id = setInterval(sync, SYNC_RETRY_MS)
+    window.addEventListener('online', sync)
+    return () => {
+      clearInterval(id)
+      window.removeEventListener('online', sync)
+    }
+  }, [pending.length, sync])
+
+  // Read from the position watch, which outlives any one render
+  const logTripStopsRef = useRef(false)
 
-  // Get GPS location — use watchPosition for continuous updates on iOS Safari
+  // Get GPS location — use watchPosition for continuous updates on iOS Safari.
+  // Along a ride the trip tracker moves the selection to each station stopped at.
   useEffect(() => {
     if (!navigator.geolocation) {
       setShowPicker(true)
       return
     }
     let hasAutoSelected = false
+    const tripTracker = createTripTracker()
     const watchId = navigator.geolocation.watchPosition(
       (pos) => {
-        const nearby = findNearbyStations(
+        const nearby = findNearbyComplexes(
           pos.coords.latitude,
           pos.coords.longitude,
-          stations,
+          getComplexes(),
         )
-        setNearbyStations(nearby)
+        setNearbyComplexes(nearby)
         if (!hasAutoSelected) {
           hasAutoSelected = true
-          if (nearby.length === 1) {
-            setSelectedStation(nearby[0].station)
-            setSelectedDistance(nearby[0].distance)
-          } else if (nearby.length > 1) {
-            setSelectedStation(nearby[0].station)
-            setSelectedDistance(nearby[0].distance)
-            setShowPicker(true)
-          } else {
-            setShowPicker(true)
-          }
-        } else if (nearby.length > 0) {
-          // Update distance for currently selected station
-          setNearbyStations(nearby)
-          setSelectedDistance((prev) => {
-            const match = nearby.find((n) => n.station.id === selectedStation?.id)
-            return match ? match.distance : prev
-          })
+          if (nearby.length > 0) setSelectedComplex(nearby[0].complex)
+          if (nearby.length !== 1) setShowPicker(true)
         }
+
+        const arrival = tripTracker.process({
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          speed: pos.coords.speed,
+          timeMs: pos.timestamp,
+        })
+        setTrip(tripTracker.current())
+        if (!arrival) return
+        setSelectedComplex(getComplex(arrival.station.id) ?? null)
+        setShowPicker(false)
+        if (!logTripStopsRef.current) return
+        const instant = new Date(arrival.timeMs)
+        const entry = createLogEntry(
+          {
+            station: arrival.station,
+            direction: arrival.direction,
+            deviceId: getDeviceId(),
+            source: 'auto',
+            note: tripArrivalNote(arrival),
+            holidayOverride: loadHolidayOverrides()[getServiceDate(instant)],
+          },
+          instant,
+        )
+        setToReview(queueForReview(entry))
       },
       () => {
         setShowPicker(true)
@@ -94,60 +175,227 @@ export function MainScreen({ config, onLogout }: MainScreenProps) {
       { enableHighAccuracy: true, maximumAge: 0, timeout: 10000 },
     )
     return () => navigator.geolocation.clearWatch(watchId)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
-  const selectStation = (station: Station, distance: number | null) => {
-    setSelectedStation(station)
-    setSelectedDistance(distance)
+  // Picked from the list or not, the distance shown is always the latest fix's
+  const selectedDistance = nearbyComplexes.find((n) => n.complex.id === selectedComplex?.id)?.distance ?? null
+
+  const selectComplex = (complex: StationComplex | undefined) => {
+    setSelectedComplex(complex ?? null)
     setShowPicker(false)
   }
 
+  // Logs always name the platform, not the complex
   const handleLog = useCallback(
-    async (direction: string) => {
-      if (!selectedStation) return
-      setLogging(true)
+    (station: Station, direction: string) => {
       setError(null)
 
       const now = new Date()
-      const time = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`
-
-      const entry: LogEntry = {
-        station: selectedStation.id,
-        line: selectedStation.line,
-        direction,
-        time,
-        dayType,
-        date: now.toISOString().slice(0, 10),
+      const entry = createLogEntry(
+        {
+          station,
+          direction,
+          deviceId: getDeviceId(),
+          source: 'manual',
+          holidayOverride: loadHolidayOverrides()[getServiceDate(now)],
+        },
+        now,
+      )
+
+      setPending(enqueueLog(entry))
+      setAllLogs((prev) => mergeLogs(prev, [entry]))
+      setRecentKeys((prev) => [logKey(entry), ...prev])
+      setUndoEntry(entry)
+      sync()
+    },
+    [sync],
+  )
+
+  const handleAutoLog = useCallback((entry: LogEntry) => {
+    setToReview(queueForReview(entry))
+  }, [])
+
+  // Confirmed auto entries join the outbox like manual ones
+  const handleConfirm = useCallback(
+    (entries: LogEntry[]) => {
+      setToReview(removeFromReview(entries))
+      for (const entry of entries) enqueueLog(entry)
+      setPending(loadOutbox())
+      setAllLogs((prev) => mergeLogs(prev, entries))
+      setRecentKeys((prev) => [...entries.map(logKey), ...prev])
+      sync()
+    },
+    [sync],
+  )
+
+  const handleDiscard = useCallback((entries: LogEntry[]) => {
+    setToReview(removeFromReview(entries))
+  }, [])
+
+  // Entries still in the outbox are changed there; synced ones in the store
+  const handleUpdate = useCallback(
+    async (previous: LogEntry, next: LogEntry) => {
+      if (!(await requeueLog(previous, next))) {
+        await store.update(previous, next)
       }
+      setPending(loadOutbox())
+      setAllLogs((prev) => prev.map((log) => (logKey(log) === logKey(previous) ? next : log)))
+    },
+    [store],
+  )
 
-      try {
-        await appendLog(config, entry)
-        setAllLogs((prev) => [...prev, entry])
-        setLastLogged(`${time} → ${direction}`)
-      } catch (err) {
-        setError(`Failed to save: ${(err as Error).message}`)
-      } finally {
-        setLogging(false)
+  const handleDelete = useCallback(
+    async (entry: LogEntry) => {
+      if (!(await dequeueLog(entry))) {
+        await store.delete(entry)
       }
+      const key = logKey(entry)
+      setPending(loadOutbox())
+      setAllLogs((prev) => prev.filter((log) => logKey(log) !== key))
+      setRecentKeys((prev) => prev.filter((k) => k !== key))
     },
-    [selectedStation, dayType, config],
+    [store],
   )
 
-  const line = selectedStation ? getLine(selectedStation.line) : null
+  // Imports go straight to the store so a failure shows while the preview is still open
+  const handleImport = useCallback(
+    async (entries: LogEntry[]) => {
+      await store.append(entries)
+      setAllLogs((prev) => mergeLogs(prev, entries))
+    },
+    [store],
+  )
+
+  const handleUndo = async () => {
+    if (!undoEntry) return
+    setUndoEntry(null)
+    try {
+      await handleDelete(undoEntry)
+    } catch (err) {
+      setError(`Failed to undo: ${(err as Error).message}`)
+    }
+  }
 
-  const getPredictions = (direction: string) => {
-    if (!selectedStation) return []
-    return [
-      ...predictArrivals(allLogs, selectedStation.id, direction, dayType, currentHour),
-      ...predictArrivals(allLogs, selectedStation.id, direction, dayType, currentHour + 1),
+  // The undo offer only lasts a few seconds after each log
+  useEffect(() => {
+    if (!undoEntry) return
+    const id = setTimeout(() => setUndoEntry(null), UNDO_TIMEOUT_MS)
+    return () => clearTimeout(id)
+  }, [undoEntry])
+
+  const pendingKeys = new Set(pending.map(logKey))
+  const recent = recentKeys.flatMap((key) => allLogs.filter((log) => logKey(log) === key))
+
+  const getForecast = (station: Station, direction: string) => {
+    const forecasts = [currentHour, currentHour + 1].map((hour) =>
+      forecastHour(allLogs, station.id, station.line, direction, dayType, hour, now, dayDetail),
+    )
+    return {
+      slots: forecasts.flatMap((f) => f.slots),
+      headway: forecasts.find((f) => f.headway)?.headway ?? null,
+    }
+  }
+
+  const needsData = (station: Station, direction: string) =>
+    scoreCoverage(allLogs, station.id, station.line, direction, dayType, currentHour).score < 1
+
+  const renderDirection = (station: Station, dir: DirectionInfo) => {
+    const { slots: predictions, headway } = getForecast(station, dir.id)
+    const currentMinutes = timeToMinutes(clock.time)
+    const tagged = predictions.map((slot) => ({
+      ...slot,
+      past: timeToMinutes(slot.time) < currentMinutes,
+    }))
+    const lastPast = tagged.filter((t) => t.past).at(-1)
+    const upcoming = tagged.filter((t) => !t.past)
+    const visible = [
+      ...(lastPast ? [{ ...lastPast, status: 'past' as const }] : []),
+      ...upcoming.map((t) => ({ ...t, status: 'upcoming' as const })),
     ]
+    return (
+      <div key={dir.id} className="direction-section">
+        <h3>
+          → {dir.label}
+          {needsData(station, dir.id) && <span className="needs-data-tag">This slot needs data</span>}
+        </h3>
+        <div className="predictions">
+          {visible.length > 0 ? (
+            <div style={{ display: 'flex', flexDirection: 'row', gap: '0.5rem' }}>
+              {visible.map((t, i) => {
+                const isNext = t.status === 'upcoming' && !visible.slice(0, i).some((v) => v.status === 'upcoming')
+                const cls = t.status === 'past' ? 'prediction-past' : isNext ? 'prediction-next' : 'prediction-later'
+                return (
+                  <span
+                    key={t.time}
+                    className={t.kind === 'observed' ? undefined : `prediction-${t.kind}`}
+                    title={PREDICTION_SOURCES[t.kind](t.samples)}
+                  >
+                    <div className={cls}>{t.kind !== 'observed' && '~'}{t.time}</div>
+                    <div className="prediction-meta">
+                      {t.spread > 0 && `±${t.spread} · `}{Math.round(t.confidence * 100)}%
+                    </div>
+                  </span>
+                )
+              })}
+            </div>
+          ) : (
+            <p className="no-data">{predictions.length > 0 ? 'No more trains this window' : 'No data yet'}</p>
+          )}
+          {headway && (
+            <p className="headway-note">Every ~{headway.minutes} min (estimated from line data)</p>
+          )}
+        </div>
+        <button
+          className="log-btn"
+          onClick={() => handleLog(station, dir.id)}
+        >
+          Log {hh}:{mm} → {dir.label}
+        </button>
+      </div>
+    )
   }
 
   if (loading) {
     return <div className="main-screen"><p>Loading...</p></div>
   }
 
+  if (view === 'history') {
+    return (
+      <div className="main-screen">
+        <HistoryScreen
+          logs={allLogs}
+          pendingKeys={pendingKeys}
+          onUpdate={handleUpdate}
+          onDelete={handleDelete}
+          onImport={handleImport}
+          onClose={() => setView('main')}
+        />
+      </div>
+    )
+  }
+
+  if (view === 'analytics') {
+    return (
+      <div className="main-screen">
+        <AnalyticsScreen logs={allLogs} onClose={() => setView('main')} />
+      </div>
+    )
+  }
+
+  if (view === 'planner') {
+    return (
+      <div className="main-screen">
+        <PlannerScreen
+          logs={allLogs}
+          dayType={dayType}
+          dayDetail={dayDetail}
+          initialOrigin={selectedComplex?.id}
+          onClose={() => setView('main')}
+        />
+      </div>
+    )
+  }
+
   // Station picker grouped by line
   const stationsByLine = lines.map((l) => ({
     line: l,
@@ -159,40 +407,73 @@ export function MainScreen({ config, onLogout }: MainScreenProps) {
       <header>
         <h1>Transport Logger</h1>
         <div className="controls">
-          <label className="holiday-toggle">
+          <label className="holiday-toggle" title={holiday?.name}>
             <input
               type="checkbox"
-              checked={isHoliday}
-              onChange={(e) => setIsHoliday(e.target.checked)}
+              checked={dayType === 'holiday'}
+              onChange={(e) => {
+                // Matching the calendar again clears the override
+                const isHoliday = e.target.checked
+                setHolidayOverrides(setHolidayOverride(today, isHoliday === !!holiday ? null : isHoliday))
+              }}
             />
             Holiday
           </label>
-          <span className="day-type-badge">{dayType}</span>
+          <span className="day-type-badge">{dayDetail}</span>
+          <button className="settings-btn" onClick={() => setView('planner')}>Plan</button>
+          <button className="settings-btn" onClick={() => setView('history')}>History</button>
+          <button className="settings-btn" onClick={() => setView('analytics')}>Stats</button>
           <button className="settings-btn" onClick={onLogout}>Settings</button>
         </div>
       </header>
 
       <div className="clock">
         <span className="clock-time">{hh}:{mm}:{ss}</span>
-        <span className="clock-date">{currentDate}</span>
+        <span className="clock-date">
+          {currentDate}
+          {holiday && ` · ${holiday.name}`}
+        </span>
       </div>
 
+      {trip?.line && (
+        <div className="trip-status">
+          <LineBadge lineId={trip.line} />
+          <span>
+            {trip.direction
+              ? `→ ${getLine(trip.line)?.directions.find((d) => d.id === trip.direction)?.label}`
+              : 'Direction not known yet'}
+            {trip.station && ` · ${trip.moving ? 'last stop' : 'at'} ${trip.station.name}`}
+          </span>
+          <label className="holiday-toggle">
+            <input
+              type="checkbox"
+              checked={logTripStops}
+              onChange={(e) => {
+                logTripStopsRef.current = e.target.checked
+                setLogTripStops(e.target.checked)
+              }}
+            />
+            Log stops for review
+          </label>
+        </div>
+      )}
+
       {error && <p className="error">{error}</p>}
 
       {/* Station selection */}
       {showPicker && (
         <div className="station-picker">
-          {nearbyStations.length > 0 && (
+          {nearbyComplexes.length > 0 && (
             <div className="nearby-stations">
               <h3>Nearby Stations</h3>
-              {nearbyStations.map(({ station: s, distance }) => (
+              {nearbyComplexes.map(({ complex, distance }) => (
                 <button
-                  key={s.id}
-                  className={`station-option ${selectedStation?.id === s.id ? 'selected' : ''}`}
-                  onClick={() => selectStation(s, distance)}
+                  key={complex.id}
+                  className={`station-option ${selectedComplex?.id === complex.id ? 'selected' : ''}`}
+                  onClick={() => selectComplex(complex)}
                 >
-                  {s.name}
-                  <span className="line-tag">{getLine(s.line)?.name}</span>
+                  {complex.name}
+                  {complex.stations.map((s) => <LineBadge key={s.id} lineId={s.line} />)}
                   <span className="distance-tag">{formatDistance(distance)}</span>
                 </button>
               ))}
@@ -202,14 +483,15 @@ export function MainScreen({ config, onLogout }: MainScreenProps) {
             <summary>All Stations</summary>
             {stationsByLine.map(({ line: l, stations: lineStations }) => (
               <div key={l.id} className="line-group">
-                <h4>{l.name}</h4>
+                <h4><LineBadge lineId={l.id} /></h4>
                 {lineStations.map((s) => (
                   <button
                     key={s.id}
-                    className={`station-option ${selectedStation?.id === s.id ? 'selected' : ''}`}
-                    onClick={() => selectStation(s, null)}
+                    className={`station-option ${selectedComplex?.stations.some((c) => c.id === s.id) ? 'selected' : ''}`}
+                    onClick={() => selectComplex(getComplex(s.id))}
                   >
                     {s.name}
+                    {s.nameTh && <span className="line-tag"> {s.nameTh}</span>}
                   </button>
                 ))}
               </div>
@@ -218,68 +500,64 @@ export function MainScreen({ config, onLogout }: MainScreenProps) {
         </div>
       )}
 
-      {selectedStation && (
+      {selectedComplex && (
         <>
           <div className="selected-station" onClick={() => setShowPicker(!showPicker)}>
-            <h2>{selectedStation.name}</h2>
-            <span className="line-tag">{line?.name}</span>
+            <h2>{selectedComplex.name}</h2>
+            {selectedComplex.stations.map((s) => <LineBadge key={s.id} lineId={s.line} />)}
             {selectedDistance != null && (
               <span className="distance-tag">{formatDistance(selectedDistance)}</span>
             )}
             <span className="change-link">Change</span>
           </div>
 
-          {/* Predictions and logging for each direction */}
-          {line?.directions.map((dir) => {
-            const predictions = getPredictions(dir.id)
-            const currentMinutes = now.getHours() * 60 + now.getMinutes()
-            const tagged = predictions.map((time) => {
-              const [h, m] = time.split(':').map(Number)
-              const mins = h * 60 + m
-              return { time, past: mins < currentMinutes }
-            })
-            const lastPast = tagged.filter((t) => t.past).at(-1)
-            const upcoming = tagged.filter((t) => !t.past)
-            const visible = [
-              ...(lastPast ? [{ ...lastPast, status: 'past' as const }] : []),
-              ...upcoming.map((t) => ({ ...t, status: 'upcoming' as const })),
-            ]
+          {/* Predictions and logging for each platform and direction */}
+          {selectedComplex.stations.map((station) => (
+            <div key={station.id} className="platform-panel">
+              {selectedComplex.stations.length > 1 && (
+                <h3 className="platform-heading"><LineBadge lineId={station.line} /></h3>
+              )}
+              {getLine(station.line)?.directions.map((dir) => renderDirection(station, dir))}
+            </div>
+          ))}
+        </>
+      )}
+
+      <ReviewQueue entries={toReview} onConfirm={handleConfirm} onDiscard={handleDiscard} />
+
+      {recent.length > 0 && (
+        <div className="recent-logs">
+          <h3>Logged this session</h3>
+          {recent.map((entry) => {
+            const synced = !pendingKeys.has(logKey(entry))
             return (
-              <div key={dir.id} className="direction-section">
-                <h3>→ {dir.label}</h3>
-                <div className="predictions">
-                  {visible.length > 0 ? (
-                    <div style={{ display: 'flex', flexDirection: 'row', gap: '0.5rem' }}>
-                      {visible.map((t, i) => {
-                        const isNext = t.status === 'upcoming' && !visible.slice(0, i).some((v) => v.status === 'upcoming')
-                        const cls = t.status === 'past' ? 'prediction-past' : isNext ? 'prediction-next' : 'prediction-later'
-                        return (
-                          <span key={t.time}>
-                            <div className={cls}>{t.time}</div>
-                          </span>
-                        )
-                      })}
-                    </div>
-                  ) : (
-                    <p className="no-data">{predictions.length > 0 ? 'No more trains this window' : 'No data yet'}</p>
-                  )}
-                </div>
-                <button
-                  className="log-btn"
-                  disabled={logging}
-                  onClick={() => handleLog(dir.id)}
-                >
-                  {logging ? 'Saving...' : `Log ${hh}:${mm} → ${dir.label}`}
-                </button>
+              <div key={logKey(entry)} className="recent-log">
+                <span>{entry.time} → {getLine(entry.line)?.directions.find((d) => d.id === entry.direction)?.label}</span>
+                <span className="line-tag">{stations.find((s) => s.id === entry.station)?.name}</span>
+                <span className={`sync-tag ${synced ? 'sync-synced' : 'sync-pending'}`}>
+                  {synced ? 'Synced' : 'Pending'}
+                </span>
               </div>
             )
           })}
+        </div>
+      )}
 
-          {lastLogged && <p className="last-logged">Last logged: {lastLogged}</p>}
-        </>
+      {pending.length > 0 && (
+        <p className="sync-status">
+          {pending.length} {pending.length === 1 ? 'entry' : 'entries'} waiting to sync
+          {syncError && ` — ${syncError}`}
+        </p>
       )}
 
-      <StopDetectorPoC />
+      <StopDetectorPoC onAutoLog={handleAutoLog} />
+
+      {undoEntry && (
+        <div className="toast">
+          <span>Logged {undoEntry.time} at {stations.find((st) => st.id === undoEntry.station)?.name}</span>
+          <button onClick={handleUndo}>Undo</button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,109 @@
+import { useMemo, useState } from 'react'
+import type { DayDetail, DayType, LogEntry } from '../types'
+import { stations } from '../data/stations'
+import { getLine } from '../data/lines'
+import { getComplexes } from '../utils/complexes'
+import { planJourney, type RideLeg } from '../utils/planner'
+import { minutesToTime, timeToMinutes, toBangkokTime } from '../utils/time'
+import { LineBadge } from './LineBadge'
+
+interface PlannerScreenProps {
+  logs: LogEntry[]
+  dayType: DayType
+  dayDetail: DayDetail
+  initialOrigin?: string // complex id
+  onClose: () => void
+}
+
+function stationName(id: string): string {
+  return stations.find((s) => s.id === id)?.name ?? id
+}
+
+function RideStep({ leg }: { leg: RideLeg }) {
+  const direction = getLine(leg.line)?.directions.find((d) => d.id === leg.direction)
+  const stops = leg.stations.length - 1
+  return (
+    <li className="planner-leg">
+      <div>
+        <LineBadge lineId={leg.line} /> → {direction?.label}
+      </div>
+      <div>
+        <strong>{leg.slot?.kind === 'observed' ? '' : '~'}{minutesToTime(leg.board)}</strong> board at {stationName(leg.stations[0])}
+      </div>
+      <div>
+        <strong>~{minutesToTime(leg.alight)}</strong> alight at {stationName(leg.stations[stops])}
+        <span className="line-tag"> · {stops} {stops === 1 ? 'stop' : 'stops'}</span>
+      </div>
+      <div className="line-tag">
+        {leg.departures.length > 0
+          ? `Next trains: ${leg.departures.map((slot) => `${slot.kind === 'observed' ? '' : '~'}${slot.time}`).join(', ')}`
+          : 'No predictions here yet; wait estimated'}
+      </div>
+    </li>
+  )
+}
+
+export function PlannerScreen({ logs, dayType, dayDetail, initialOrigin, onClose }: PlannerScreenProps) {
+  const complexes = useMemo(() => [...getComplexes()].sort((a, b) => a.name.localeCompare(b.name)), [])
+  const [origin, setOrigin] = useState(initialOrigin ?? '')
+  const [destination, setDestination] = useState('')
+  const [leaveAt, setLeaveAt] = useState(() => toBangkokTime(new Date()).time)
+
+  const journey = useMemo(() => {
+    const from = complexes.find((c) => c.id === origin)
+    const to = complexes.find((c) => c.id === destination)
+    if (!from || !to || from === to || !leaveAt) return undefined
+    return planJourney(logs, from.stations.map((s) => s.id), to.stations.map((s) => s.id), {
+      dayType,
+      detail: dayDetail,
+      now: new Date(),
+      minutes: timeToMinutes(leaveAt),
+    })
+  }, [complexes, logs, origin, destination, leaveAt, dayType, dayDetail])
+
+  return (
+    <div className="planner-screen">
+      <header>
+        <h1>Plan a trip</h1>
+        <button className="settings-btn" onClick={onClose}>Back</button>
+      </header>
+
+      <div className="history-filters">
+        <select value={origin} onChange={(e) => setOrigin(e.target.value)}>
+          <option value="">From…</option>
+          {complexes.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <select value={destination} onChange={(e) => setDestination(e.target.value)}>
+          <option value="">To…</option>
+          {complexes.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <input type="time" value={leaveAt} onChange={(e) => setLeaveAt(e.target.value)} required />
+      </div>
+
+      {journey === null && <p className="no-data">No route between these stations</p>}
+      {journey && (
+        <section className="analytics-section">
+          <h2>
+            Arrive ~{minutesToTime(journey.arrive)}
+            <span className="line-tag"> · {journey.arrive - journey.depart} min</span>
+          </h2>
+          <ol className="planner-legs">
+            {journey.legs.map((leg, i) =>
+              leg.kind === 'ride' ? (
+                <RideStep key={i} leg={leg} />
+              ) : (
+                <li key={i} className="planner-leg planner-walk">
+                  Walk to {stationName(leg.to)} <span className="line-tag">· {leg.minutes} min</span>
+                </li>
+              ),
+            )}
+          </ol>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import type { LogEntry } from '../types'
+import { stations } from '../data/stations'
+import { getLine } from '../data/lines'
+import { logKey } from '../utils/logs'
+
+interface ReviewQueueProps {
+  entries: LogEntry[]
+  onConfirm: (entries: LogEntry[]) => void
+  onDiscard: (entries: LogEntry[]) => void
+}
+
+export function ReviewQueue({ entries, onConfirm, onDiscard }: ReviewQueueProps) {
+  if (entries.length === 0) return null
+
+  return (
+    <div className="recent-logs review-queue">
+      <h3>
+        Auto-logged — review before syncing
+        <span className="review-actions">
+          <button onClick={() => onConfirm(entries)}>Confirm all</button>
+          <button onClick={() => onDiscard(entries)}>Discard all</button>
+        </span>
+      </h3>
+      {entries.map((entry) => (
+        <div key={logKey(entry)} className="recent-log">
+          <span>{entry.time} → {getLine(entry.line)?.directions.find((d) => d.id === entry.direction)?.label}</span>
+          <span className="line-tag" title={entry.note}>{stations.find((s) => s.id === entry.station)?.name}</span>
+          <span className="review-actions">
+            <button onClick={() => onConfirm([entry])}>Confirm</button>
+            <button onClick={() => onDiscard([entry])}>Discard</button>
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,39 +1,128 @@
 import { useState } from 'react'
-import type { GitHubConfig } from '../types'
+import type { StoreConfig } from '../types'
+import { DEFAULT_REPOSITORY, validateGitHubConfig } from '../services/github'
 
 interface SetupScreenProps {
-  onSave: (config: GitHubConfig) => void
+  onSave: (config: StoreConfig) => void
 }
 
+type Backend = StoreConfig['backend']
+
 export function SetupScreen({ onSave }: SetupScreenProps) {
+  const [backend, setBackend] = useState<Backend>('github')
   const [token, setToken] = useState('')
+  const [owner, setOwner] = useState(DEFAULT_REPOSITORY.owner)
+  const [repo, setRepo] = useState(DEFAULT_REPOSITORY.repo)
+  const [branch, setBranch] = useState(DEFAULT_REPOSITORY.branch)
+  const [path, setPath] = useState(DEFAULT_REPOSITORY.path)
+  const [validating, setValidating] = useState(false)
+  const [url, setUrl] = useState('http://localhost:8787')
   const [error, setError] = useState('')
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!token.trim()) {
+  const saveGitHub = async () => {
+    const config = {
+      token: token.trim(),
+      owner: owner.trim(),
+      repo: repo.trim(),
+      branch: branch.trim(),
+      path: path.trim().replace(/^\/+/, ''),
+    }
+    if (!config.token) {
       setError('Token is required')
       return
     }
-    onSave({ token: token.trim() })
+    if (!config.owner || !config.repo || !config.branch || !config.path) {
+      setError('Owner, repository, branch and file path are all required')
+      return
+    }
+    setValidating(true)
+    setError('')
+    try {
+      await validateGitHubConfig(config)
+      onSave({ backend: 'github', ...config })
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    switch (backend) {
+      case 'github':
+        saveGitHub()
+        return
+      case 'http':
+        if (!url.trim()) {
+          setError('Server URL is required')
+          return
+        }
+        onSave({ backend, url: url.trim() })
+        return
+      case 'indexeddb':
+        onSave({ backend })
+        return
+    }
   }
 
   return (
     <div className="setup-screen">
       <h1>Transport Logger</h1>
-      <p>Enter your GitHub Personal Access Token to store train arrival logs.</p>
+      <p>Choose where to store train arrival logs.</p>
       <form onSubmit={handleSubmit}>
         <label>
-          GitHub Personal Access Token
-          <input
-            type="password"
-            value={token}
-            onChange={(e) => setToken(e.target.value)}
-            placeholder="ghp_..."
-          />
+          Storage
+          <select value={backend} onChange={(e) => setBackend(e.target.value as Backend)}>
+            <option value="github">GitHub repository</option>
+            <option value="indexeddb">This device only</option>
+            <option value="http">Local JSON server</option>
+          </select>
         </label>
+        {backend === 'github' && (
+          <>
+            <label>
+              GitHub Personal Access Token
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="ghp_..."
+              />
+            </label>
+            <label>
+              Repository owner
+              <input value={owner} onChange={(e) => setOwner(e.target.value)} />
+            </label>
+            <label>
+              Repository name
+              <input value={repo} onChange={(e) => setRepo(e.target.value)} />
+            </label>
+            <label>
+              Branch
+              <input value={branch} onChange={(e) => setBranch(e.target.value)} />
+            </label>
+            <label>
+              Log file path
+              <input value={path} onChange={(e) => setPath(e.target.value)} />
+            </label>
+          </>
+        )}
+        {backend === 'http' && (
+          <label>
+            Server URL
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="http://localhost:8787"
+            />
+          </label>
+        )}
         {error && <p className="error">{error}</p>}
-        <button type="submit">Save</button>
+        <button type="submit" disabled={validating}>
+          {validating ? 'Checking...' : 'Save'}
+        </button>
       </form>
     </div>
   )
@@ -1,61 +1,26 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { stations } from '../data/stations'
 import { lines } from '../data/lines'
-import type { LineId } from '../types'
-
-// --- Station name matching ---
-
-// Build lookup of English station names for the route
-function buildStationKeywords(routeStations: { id: string; name: string }[]) {
-  return routeStations.map((s) => ({
-    id: s.id,
-    name: s.name,
-    // lowercase words >= 3 chars for fuzzy matching against transcript
-    keywords: s.name.toLowerCase().split(/\s+/).filter((w) => w.length >= 3),
-  }))
-}
-
-function matchStationInText(
-  text: string,
-  stationKeywords: ReturnType<typeof buildStationKeywords>,
-): { id: string; name: string } | null {
-  const lower = text.toLowerCase()
-  // Try longest name first to avoid partial matches
-  for (const s of [...stationKeywords].sort((a, b) => b.name.length - a.name.length)) {
-    // Full name match
-    if (lower.includes(s.name.toLowerCase())) return s
-    // Keyword match — if any keyword of 4+ chars matches
-    for (const kw of s.keywords) {
-      if (kw.length >= 4 && lower.includes(kw)) return s
-    }
-  }
-  return null
-}
-
-// --- Door chime detection ---
-// MRT/BTS door chimes are typically a repeated tone in the 800-2500 Hz range.
-// We detect sustained energy spikes in that band above background noise.
-
-const CHIME_LOW_HZ = 800
-const CHIME_HIGH_HZ = 2500
-const CHIME_THRESHOLD_DB = -35  // dBFS — tune based on real data
-const CHIME_MIN_DURATION_MS = 500  // tone must persist for at least this long
+import type { LineId, LogEntry, Station } from '../types'
+import { getServiceDate, toBangkokTime } from '../utils/time'
+import { findRide } from '../utils/network'
+import { createLogEntry } from '../utils/logSchema'
+import { getDeviceId } from '../services/device'
+import { loadHolidayOverrides } from '../services/holidayOverrides'
+import { startMicrophone, type Microphone } from '../services/microphone'
+import { loadChimeProfiles } from '../services/chimeProfiles'
+import { CHIME_FFT_SIZE, CHIME_HIGH_HZ, CHIME_LOW_HZ, createChimeDetector } from '../detection/chimeDetector'
+import { defaultTemplate } from '../detection/chimeTemplates'
+import { createTranscriptMatcher } from '../detection/transcriptMatcher'
+import type { Detection, DetectorEngine } from '../detection/engine'
+import { createArrivalTracker, type ArrivalTracker, type InferredArrival } from '../detection/arrivalTracker'
+import { ChimeCalibration } from './ChimeCalibration'
 
 // --- Helpers ---
 
-function getStationsOnRoute(lineId: LineId, originId: string, destinationId: string) {
-  const lineStations = stations.filter((s) => s.line === lineId)
-  const originIdx = lineStations.findIndex((s) => s.id === originId)
-  const destIdx = lineStations.findIndex((s) => s.id === destinationId)
-  if (originIdx === -1 || destIdx === -1) return []
-  if (originIdx < destIdx) {
-    return lineStations.slice(originIdx, destIdx + 1)
-  }
-  return lineStations.slice(destIdx, originIdx + 1).reverse()
-}
-
 function formatTime(date: Date): string {
-  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}:${String(date.getSeconds()).padStart(2, '0')}`
+  const { time, seconds } = toBangkokTime(date)
+  return `${time}:${String(seconds).padStart(2, '0')}`
 }
 
 // --- Types ---
@@ -68,12 +33,31 @@ interface EventLogEntry {
 
 // --- Component ---
 
-export function StopDetectorPoC() {
+interface StopDetectorPoCProps {
+  // Receives auto-logged arrivals; they should be reviewed before syncing
+  onAutoLog: (entry: LogEntry) => void
+}
+
+// Announcements are made in Thai, then English; the matcher understands both
+const SPEECH_LANGUAGES = [
+  { code: 'th-TH', label: 'Thai' },
+  { code: 'en-US', label: 'English' },
+]
+
+const ARRIVAL_NOTES: Record<InferredArrival['basis'], string> = {
+  speech: 'Auto: door chime after announcement',
+  expected: 'Auto: door chime at next stop on route',
+}
+
+export function StopDetectorPoC({ onAutoLog }: StopDetectorPoCProps) {
   const [selectedLine, setSelectedLine] = useState<LineId>('mrt_blue')
   const [originId, setOriginId] = useState('')
   const [destinationId, setDestinationId] = useState('')
   const [running, setRunning] = useState(false)
-  const [routeStations, setRouteStations] = useState<ReturnType<typeof getStationsOnRoute>>([])
+  const [routeStations, setRouteStations] = useState<Station[]>([])
+  const [autoLog, setAutoLog] = useState(false)
+  const [speechLang, setSpeechLang] = useState('th-TH')
+  const [autoLogged, setAutoLogged] = useState<string[]>([])
 
   // Speech recognition state
   const [transcript, setTranscript] = useState('')
@@ -81,7 +65,7 @@ export function StopDetectorPoC() {
   const [speechError, setSpeechError] = useState<string | null>(null)
 
   // Door chime state
-  const [chimeLevel, setChimeLevel] = useState(-100) // dBFS in target band
+  const [chimeLevel, setChimeLevel] = useState({ peakDb: -100, floorDb: -100 }) // dBFS in target band
   const [chimeDetected, setChimeDetected] = useState(false)
   const [chimeCount, setChimeCount] = useState(0)
 
@@ -90,14 +74,11 @@ export function StopDetectorPoC() {
 
   // Refs
   const recognitionRef = useRef<SpeechRecognition | null>(null)
-  const audioCtxRef = useRef<AudioContext | null>(null)
-  const analyserRef = useRef<AnalyserNode | null>(null)
-  const streamRef = useRef<MediaStream | null>(null)
-  const rafRef = useRef(0)
-  const stationKeywordsRef = useRef<ReturnType<typeof buildStationKeywords>>([])
-  const chimeStartRef = useRef(0)
-  const chimeActiveRef = useRef(false)
-  const matchedStationsRef = useRef(new Set<string>())
+  const micRef = useRef<Microphone | null>(null)
+  // Bumped by Stop and unmount, so a microphone still opening is closed once it arrives
+  const micAttemptRef = useRef(0)
+  const matcherRef = useRef<DetectorEngine<string> | null>(null)
+  const trackerRef = useRef<{ tracker: ArrivalTracker; direction: string } | null>(null)
   const logRef = useRef<HTMLDivElement>(null)
 
   const lineStations = stations.filter((s) => s.line === selectedLine)
@@ -106,6 +87,30 @@ export function StopDetectorPoC() {
     setEventLog((prev) => [...prev, { time: formatTime(new Date()), source, detail }])
   }, [])
 
+  // --- Auto-logging ---
+
+  const trackArrival = useCallback((detection: Detection) => {
+    const current = trackerRef.current
+    const arrival = current?.tracker.process(detection)
+    if (!current || !arrival) return
+
+    const now = new Date()
+    const entry = createLogEntry(
+      {
+        station: arrival.station,
+        direction: current.direction,
+        deviceId: getDeviceId(),
+        source: 'auto',
+        note: `${ARRIVAL_NOTES[arrival.basis]} (${Math.round(detection.confidence * 100)}%)`,
+        holidayOverride: loadHolidayOverrides()[getServiceDate(now)],
+      },
+      now,
+    )
+    onAutoLog(entry)
+    setAutoLogged((prev) => [...prev, arrival.station.id])
+    addEvent('chime', `Auto-logged arrival at ${arrival.station.name} for review`)
+  }, [addEvent, onAutoLog])
+
   // --- Speech Recognition ---
 
   const startSpeechRecognition = useCallback(() => {
@@ -118,7 +123,7 @@ export function StopDetectorPoC() {
     const recognition = new SpeechRecognition()
     recognition.continuous = true
     recognition.interimResults = true
-    recognition.lang = 'en-US'  // English announcements more likely to be recognised
+    recognition.lang = speechLang
 
     recognition.onresult = (event: SpeechRecognitionEvent) => {
       let fullTranscript = ''
@@ -129,11 +134,12 @@ export function StopDetectorPoC() {
 
       // Check latest result for station name matches
       const latest = event.results[event.results.length - 1][0].transcript
-      const match = matchStationInText(latest, stationKeywordsRef.current)
-      if (match && !matchedStationsRef.current.has(match.id)) {
-        matchedStationsRef.current.add(match.id)
-        setSpeechMatches((prev) => [...prev, match.id])
-        addEvent('speech', `Matched: "${match.name}" from "${latest.trim()}"`)
+      const detection = matcherRef.current?.process(latest, performance.now())
+      if (detection?.station) {
+        const station = detection.station
+        setSpeechMatches((prev) => [...prev, station])
+        addEvent('speech', detection.detail)
+        trackArrival(detection)
       }
     }
 
@@ -156,99 +162,77 @@ export function StopDetectorPoC() {
 
     recognition.start()
     recognitionRef.current = recognition
-    addEvent('speech', 'Started listening (en-US)')
-  }, [addEvent])
+    addEvent('speech', `Started listening (${speechLang})`)
+  }, [addEvent, trackArrival, speechLang])
 
   // --- Door Chime Detection ---
 
   const startChimeDetection = useCallback(async () => {
+    // A chime calibrated on this device beats the built-in approximation
+    const profile = loadChimeProfiles()[selectedLine]
+    const template = profile ?? defaultTemplate(selectedLine)
+    const attempt = ++micAttemptRef.current
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
-      streamRef.current = stream
-
-      const audioCtx = new AudioContext()
-      audioCtxRef.current = audioCtx
-
-      const source = audioCtx.createMediaStreamSource(stream)
-      const analyser = audioCtx.createAnalyser()
-      analyser.fftSize = 2048
-      analyser.smoothingTimeConstant = 0.3
-      source.connect(analyser)
-      analyserRef.current = analyser
-
-      const sampleRate = audioCtx.sampleRate
-      const binSize = sampleRate / analyser.fftSize
-      const lowBin = Math.floor(CHIME_LOW_HZ / binSize)
-      const highBin = Math.ceil(CHIME_HIGH_HZ / binSize)
-
-      const freqData = new Float32Array(analyser.frequencyBinCount)
-
-      const tick = () => {
-        analyser.getFloatFrequencyData(freqData)
-
-        // Average dBFS in the target frequency band
-        let sum = 0
-        let count = 0
-        for (let i = lowBin; i <= highBin && i < freqData.length; i++) {
-          sum += freqData[i]
-          count++
-        }
-        const avgDb = count > 0 ? sum / count : -100
+      const mic = await startMicrophone(CHIME_FFT_SIZE, (sampleRate) => {
+        const detector = createChimeDetector({ sampleRate, template })
+        return (samples, timeMs) => {
+          const detection = detector.process(samples, timeMs)
+          setChimeLevel(detector.reading())
 
-        setChimeLevel(avgDb)
-
-        const now = Date.now()
-        if (avgDb > CHIME_THRESHOLD_DB) {
-          if (!chimeActiveRef.current) {
-            chimeStartRef.current = now
-            chimeActiveRef.current = true
-          } else if (now - chimeStartRef.current >= CHIME_MIN_DURATION_MS) {
+          if (detection) {
             setChimeDetected(true)
-            setChimeCount((prev) => {
-              const next = prev + 1
-              addEvent('chime', `Chime #${next} — avg ${avgDb.toFixed(1)} dBFS`)
-              return next
-            })
-            // Reset — require a gap before next detection
-            chimeActiveRef.current = false
+            setChimeCount((prev) => prev + 1)
+            addEvent('chime', detection.detail)
+            trackArrival(detection)
             setTimeout(() => setChimeDetected(false), 2000)
           }
-        } else {
-          chimeActiveRef.current = false
         }
-
-        rafRef.current = requestAnimationFrame(tick)
+      })
+      if (attempt !== micAttemptRef.current) {
+        mic.stop()
+        return
       }
-
-      rafRef.current = requestAnimationFrame(tick)
-      addEvent('chime', `Started — monitoring ${CHIME_LOW_HZ}-${CHIME_HIGH_HZ} Hz > ${CHIME_THRESHOLD_DB} dBFS`)
+      micRef.current = mic
+      const pattern = profile ? 'calibrated chime' : template ? 'built-in chime' : 'any sustained tone'
+      addEvent('chime', `Started — listening for the ${pattern} in ${CHIME_LOW_HZ}-${CHIME_HIGH_HZ} Hz`)
     } catch (err) {
+      if (attempt !== micAttemptRef.current) return
       addEvent('chime', `Microphone error: ${(err as Error).message}`)
     }
-  }, [addEvent])
+  }, [addEvent, trackArrival, selectedLine])
 
   // --- Start / Stop ---
 
   const handleStart = useCallback(async () => {
     if (!originId || !destinationId || originId === destinationId) return
 
-    const route = getStationsOnRoute(selectedLine, originId, destinationId)
+    const ride = findRide(selectedLine, originId, destinationId)
+    const route = ride?.stations ?? []
     setRouteStations(route)
-    stationKeywordsRef.current = buildStationKeywords(route)
-    matchedStationsRef.current = new Set()
+    matcherRef.current = createTranscriptMatcher(route)
+    trackerRef.current = autoLog && ride
+      ? { tracker: createArrivalTracker(route, performance.now()), direction: ride.direction }
+      : null
+    setAutoLogged([])
 
     setEventLog([])
     setTranscript('')
     setSpeechMatches([])
     setSpeechError(null)
-    setChimeLevel(-100)
+    setChimeLevel({ peakDb: -100, floorDb: -100 })
     setChimeDetected(false)
     setChimeCount(0)
     setRunning(true)
 
     startSpeechRecognition()
     await startChimeDetection()
-  }, [originId, destinationId, selectedLine, startSpeechRecognition, startChimeDetection])
+  }, [originId, destinationId, selectedLine, autoLog, startSpeechRecognition, startChimeDetection])
+
+  const releaseMicrophone = useCallback(() => {
+    micAttemptRef.current++
+    micRef.current?.stop()
+    micRef.current = null
+  }, [])
 
   const handleStop = useCallback(() => {
     if (recognitionRef.current) {
@@ -256,19 +240,9 @@ export function StopDetectorPoC() {
       recognitionRef.current = null
       r.stop()
     }
-    if (rafRef.current) {
-      cancelAnimationFrame(rafRef.current)
-    }
-    if (audioCtxRef.current) {
-      audioCtxRef.current.close()
-      audioCtxRef.current = null
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((t) => t.stop())
-      streamRef.current = null
-    }
+    releaseMicrophone()
     setRunning(false)
-  }, [])
+  }, [releaseMicrophone])
 
   // Auto-scroll event log
   useEffect(() => {
@@ -322,11 +296,9 @@ export function StopDetectorPoC() {
         recognitionRef.current.stop()
         recognitionRef.current = null
       }
-      if (rafRef.current) cancelAnimationFrame(rafRef.current)
-      if (audioCtxRef.current) audioCtxRef.current.close()
-      if (streamRef.current) streamRef.current.getTracks().forEach((t) => t.stop())
+      releaseMicrophone()
     }
-  }, [])
+  }, [releaseMicrophone])
 
   return (
     <div className="poc-detector">
@@ -368,6 +340,22 @@ export function StopDetectorPoC() {
             </select>
           </label>
 
+          <label>
+            Announcement language
+            <select value={speechLang} onChange={(e) => setSpeechLang(e.target.value)}>
+              {SPEECH_LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="poc-checkbox">
+            <input type="checkbox" checked={autoLog} onChange={(e) => setAutoLog(e.target.checked)} />
+            Log arrivals automatically (held for review)
+          </label>
+
+          <ChimeCalibration key={selectedLine} lineId={selectedLine} />
+
           <button
             className="log-btn"
             disabled={!originId || !destinationId}
@@ -398,10 +386,12 @@ export function StopDetectorPoC() {
               <div className="poc-meter-bar-bg">
                 <div
                   className={`poc-meter-bar ${chimeDetected ? 'poc-meter-chime' : ''}`}
-                  style={{ width: `${Math.max(0, Math.min(100, (chimeLevel + 100) * 1.2))}%` }}
+                  style={{ width: `${Math.max(0, Math.min(100, (chimeLevel.peakDb + 100) * 1.2))}%` }}
                 />
               </div>
-              <div className="poc-meter-value">{chimeLevel.toFixed(1)} dBFS</div>
+              <div className="poc-meter-value">
+                {chimeLevel.peakDb.toFixed(1)} dBFS, +{Math.max(0, chimeLevel.peakDb - chimeLevel.floorDb).toFixed(1)} dB over floor
+              </div>
             </div>
             <div className="poc-metric">
               Chimes detected: <strong>{chimeCount}</strong>
@@ -415,12 +405,15 @@ export function StopDetectorPoC() {
             {routeStations.map((s, i) => {
               const isOrigin = i === 0
               const speechMatch = speechMatches.includes(s.id)
+              const logged = autoLogged.includes(s.id)
               return (
                 <div key={s.id} className={`poc-station ${isOrigin ? 'poc-origin' : ''} ${speechMatch ? 'poc-detected' : ''}`}>
                   <span className="poc-station-dot" />
                   <span className="poc-station-name">{s.name}</span>
+                  {s.nameTh && <span className="line-tag">{s.nameTh}</span>}
                   {isOrigin && <span className="poc-station-tag">ORIGIN</span>}
                   {speechMatch && <span className="poc-station-tag poc-tag-speech">SPEECH</span>}
+                  {logged && <span className="poc-station-tag poc-tag-auto">AUTO</span>}
                 </div>
               )
             })}
@@ -0,0 +1,5 @@
+import type { Agency } from '../types'
+import { generatedAgencies } from './network.generated'
+
+// Built from data/gtfs/agency.txt by `pnpm import-gtfs`
+export const agencies: Agency[] = generatedAgencies
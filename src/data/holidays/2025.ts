@@ -0,0 +1,28 @@
+import type { Holiday } from '../../types'
+
+// Thai public holidays for 2025 as announced by the Cabinet
+export const holidays2025: Holiday[] = [
+  { date: '2025-01-01', name: "New Year's Day" },
+  { date: '2025-02-12', name: 'Makha Bucha Day' },
+  { date: '2025-04-06', name: 'Chakri Memorial Day' },
+  { date: '2025-04-07', name: 'Chakri Memorial Day (substitution)', substitutes: '2025-04-06' },
+  { date: '2025-04-13', name: 'Songkran Festival' },
+  { date: '2025-04-14', name: 'Songkran Festival' },
+  { date: '2025-04-15', name: 'Songkran Festival' },
+  { date: '2025-04-16', name: 'Songkran Festival (substitution)', substitutes: '2025-04-13' },
+  { date: '2025-05-01', name: 'National Labour Day' },
+  { date: '2025-05-04', name: 'Coronation Day' },
+  { date: '2025-05-05', name: 'Coronation Day (substitution)', substitutes: '2025-05-04' },
+  { date: '2025-05-11', name: 'Visakha Bucha Day' },
+  { date: '2025-05-12', name: 'Visakha Bucha Day (substitution)', substitutes: '2025-05-11' },
+  { date: '2025-06-03', name: "Queen Suthida's Birthday" },
+  { date: '2025-07-10', name: 'Asarnha Bucha Day' },
+  { date: '2025-07-11', name: 'Khao Phansa Day' },
+  { date: '2025-07-28', name: "King Vajiralongkorn's Birthday" },
+  { date: '2025-08-12', name: "Queen Mother's Birthday / Mother's Day" },
+  { date: '2025-10-13', name: 'King Bhumibol Memorial Day' },
+  { date: '2025-10-23', name: 'Chulalongkorn Day' },
+  { date: '2025-12-05', name: "King Bhumibol's Birthday / Father's Day" },
+  { date: '2025-12-10', name: 'Constitution Day' },
+  { date: '2025-12-31', name: "New Year's Eve" },
+]
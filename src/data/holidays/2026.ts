@@ -0,0 +1,26 @@
+import type { Holiday } from '../../types'
+
+// Thai public holidays for 2026 as announced by the Cabinet
+export const holidays2026: Holiday[] = [
+  { date: '2026-01-01', name: "New Year's Day" },
+  { date: '2026-03-03', name: 'Makha Bucha Day' },
+  { date: '2026-04-06', name: 'Chakri Memorial Day' },
+  { date: '2026-04-13', name: 'Songkran Festival' },
+  { date: '2026-04-14', name: 'Songkran Festival' },
+  { date: '2026-04-15', name: 'Songkran Festival' },
+  { date: '2026-05-01', name: 'National Labour Day' },
+  { date: '2026-05-04', name: 'Coronation Day' },
+  { date: '2026-05-31', name: 'Visakha Bucha Day' },
+  { date: '2026-06-01', name: 'Visakha Bucha Day (substitution)', substitutes: '2026-05-31' },
+  { date: '2026-06-03', name: "Queen Suthida's Birthday" },
+  { date: '2026-07-28', name: "King Vajiralongkorn's Birthday" },
+  { date: '2026-07-29', name: 'Asarnha Bucha Day' },
+  { date: '2026-07-30', name: 'Khao Phansa Day' },
+  { date: '2026-08-12', name: "Queen Mother's Birthday / Mother's Day" },
+  { date: '2026-10-13', name: 'King Bhumibol Memorial Day' },
+  { date: '2026-10-23', name: 'Chulalongkorn Day' },
+  { date: '2026-12-05', name: "King Bhumibol's Birthday / Father's Day" },
+  { date: '2026-12-07', name: "King Bhumibol's Birthday (substitution)", substitutes: '2026-12-05' },
+  { date: '2026-12-10', name: 'Constitution Day' },
+  { date: '2026-12-31', name: "New Year's Eve" },
+]
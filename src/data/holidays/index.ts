@@ -0,0 +1,16 @@
+import type { Holiday } from '../../types'
+import { holidays2025 } from './2025'
+import { holidays2026 } from './2026'
+
+// Add a file per year as the Cabinet announces the calendar
+const allHolidays: Holiday[] = [...holidays2025, ...holidays2026]
+
+const byDate = new Map(allHolidays.map((h) => [h.date, h]))
+
+export function getHoliday(date: string): Holiday | undefined {
+  return byDate.get(date)
+}
+
+export function getHolidays(): Holiday[] {
+  return allHolidays
+}
@@ -0,0 +1,5 @@
+import type { Interchange } from '../types'
+import { generatedInterchanges } from './network.generated'
+
+// Built from data/gtfs/transfers.txt by `pnpm import-gtfs`
+export const interchanges: Interchange[] = generatedInterchanges
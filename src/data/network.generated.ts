@@ -0,0 +1,2374 @@
+// Generated by scripts/import-gtfs.ts from data/gtfs — edit the feed and
+// run `pnpm import-gtfs` instead of changing this file.
+
+import type { Agency, Interchange, Line, Station } from '../types'
+
+export const generatedAgencies: Agency[] = [
+  {
+    id: 'bem',
+    name: 'Bangkok Expressway and Metro',
+    url: 'https://metro.bemplc.co.th',
+    timezone: 'Asia/Bangkok',
+  },
+  {
+    id: 'btsc',
+    name: 'Bangkok Mass Transit System',
+    url: 'https://www.bts.co.th',
+    timezone: 'Asia/Bangkok',
+  },
+  {
+    id: 'srtet',
+    name: 'SRT Electrified Train',
+    url: 'https://www.srtet.co.th',
+    timezone: 'Asia/Bangkok',
+  },
+  {
+    id: 'ebm',
+    name: 'Eastern Bangkok Monorail',
+    url: 'https://www.bts.co.th',
+    timezone: 'Asia/Bangkok',
+  },
+  {
+    id: 'nbm',
+    name: 'Northern Bangkok Monorail',
+    url: 'https://www.bts.co.th',
+    timezone: 'Asia/Bangkok',
+  },
+]
+
+export const generatedStations: Station[] = [
+  {
+    id: 'mrt_tha_phra',
+    name: 'Tha Phra',
+    nameTh: 'ท่าพระ',
+    line: 'mrt_blue',
+    lat: 13.7296,
+    lng: 100.474,
+  },
+  {
+    id: 'mrt_charan_13',
+    name: 'Charan 13',
+    nameTh: 'จรัญฯ 13',
+    line: 'mrt_blue',
+    lat: 13.7402,
+    lng: 100.4707,
+  },
+  {
+    id: 'mrt_fai_chai',
+    name: 'Fai Chai',
+    nameTh: 'ไฟฉาย',
+    line: 'mrt_blue',
+    lat: 13.7558,
+    lng: 100.4693,
+  },
+  {
+    id: 'mrt_bang_khun_non',
+    name: 'Bang Khun Non',
+    nameTh: 'บางขุนนนท์',
+    line: 'mrt_blue',
+    lat: 13.7633,
+    lng: 100.4733,
+  },
+  {
+    id: 'mrt_bang_yi_khan',
+    name: 'Bang Yi Khan',
+    nameTh: 'บางยี่ขัน',
+    line: 'mrt_blue',
+    lat: 13.7774,
+    lng: 100.4853,
+  },
+  {
+    id: 'mrt_sirindhorn',
+    name: 'Sirindhorn',
+    nameTh: 'สิรินธร',
+    line: 'mrt_blue',
+    lat: 13.7839,
+    lng: 100.4933,
+  },
+  {
+    id: 'mrt_bang_phlat',
+    name: 'Bang Phlat',
+    nameTh: 'บางพลัด',
+    line: 'mrt_blue',
+    lat: 13.7924,
+    lng: 100.5049,
+  },
+  {
+    id: 'mrt_bang_o',
+    name: 'Bang O',
+    nameTh: 'บางอ้อ',
+    line: 'mrt_blue',
+    lat: 13.799,
+    lng: 100.5098,
+  },
+  {
+    id: 'mrt_bang_pho',
+    name: 'Bang Pho',
+    nameTh: 'บางโพ',
+    line: 'mrt_blue',
+    lat: 13.8064,
+    lng: 100.521,
+  },
+  {
+    id: 'mrt_tao_poon',
+    name: 'Tao Poon',
+    nameTh: 'เตาปูน',
+    aliases: ['Tao Pun', 'Taopoon'],
+    line: 'mrt_blue',
+    lat: 13.8062,
+    lng: 100.5308,
+  },
+  {
+    id: 'mrt_bang_sue',
+    name: 'Bang Sue',
+    nameTh: 'บางซื่อ',
+    line: 'mrt_blue',
+    lat: 13.8024,
+    lng: 100.541,
+  },
+  {
+    id: 'mrt_kamphaeng_phet',
+    name: 'Kamphaeng Phet',
+    nameTh: 'กำแพงเพชร',
+    line: 'mrt_blue',
+    lat: 13.7979,
+    lng: 100.5479,
+  },
+  {
+    id: 'mrt_chatuchak_park',
+    name: 'Chatuchak Park',
+    nameTh: 'สวนจตุจักร',
+    aliases: ['Chatuchak'],
+    line: 'mrt_blue',
+    lat: 13.803,
+    lng: 100.5533,
+  },
+  {
+    id: 'mrt_phahon_yothin',
+    name: 'Phahon Yothin',
+    nameTh: 'พหลโยธิน',
+    aliases: ['Phahonyothin'],
+    line: 'mrt_blue',
+    lat: 13.8129,
+    lng: 100.5615,
+  },
+  {
+    id: 'mrt_lat_phrao',
+    name: 'Lat Phrao',
+    nameTh: 'ลาดพร้าว',
+    aliases: ['Ladprao'],
+    line: 'mrt_blue',
+    lat: 13.8065,
+    lng: 100.5729,
+  },
+  {
+    id: 'mrt_ratchadaphisek',
+    name: 'Ratchadaphisek',
+    nameTh: 'รัชดาภิเษก',
+    aliases: ['Ratchada'],
+    line: 'mrt_blue',
+    lat: 13.799,
+    lng: 100.5746,
+  },
+  {
+    id: 'mrt_sutthisan',
+    name: 'Sutthisan',
+    nameTh: 'สุทธิสาร',
+    line: 'mrt_blue',
+    lat: 13.7895,
+    lng: 100.5741,
+  },
+  {
+    id: 'mrt_huai_khwang',
+    name: 'Huai Khwang',
+    nameTh: 'ห้วยขวาง',
+    line: 'mrt_blue',
+    lat: 13.7787,
+    lng: 100.5736,
+  },
+  {
+    id: 'mrt_thailand_cultural_centre',
+    name: 'Thailand Cultural Centre',
+    nameTh: 'ศูนย์วัฒนธรรมแห่งประเทศไทย',
+    aliases: ['Thailand Cultural Center', 'Cultural Centre'],
+    line: 'mrt_blue',
+    lat: 13.7663,
+    lng: 100.5701,
+  },
+  {
+    id: 'mrt_phra_ram_9',
+    name: 'Phra Ram 9',
+    nameTh: 'พระราม 9',
+    aliases: ['Rama 9', 'Rama IX'],
+    line: 'mrt_blue',
+    lat: 13.7578,
+    lng: 100.5653,
+  },
+  {
+    id: 'mrt_phetchaburi',
+    name: 'Phetchaburi',
+    nameTh: 'เพชรบุรี',
+    aliases: ['Phetburi'],
+    line: 'mrt_blue',
+    lat: 13.7492,
+    lng: 100.5634,
+  },
+  {
+    id: 'mrt_sukhumvit',
+    name: 'Sukhumvit',
+    nameTh: 'สุขุมวิท',
+    line: 'mrt_blue',
+    lat: 13.7374,
+    lng: 100.5613,
+  },
+  {
+    id: 'mrt_queen_sirikit',
+    name: 'Queen Sirikit National Convention Centre',
+    nameTh: 'ศูนย์การประชุมแห่งชาติสิริกิติ์',
+    aliases: ['Queen Sirikit', 'QSNCC', 'Sirikit'],
+    line: 'mrt_blue',
+    lat: 13.7227,
+    lng: 100.5599,
+  },
+  {
+    id: 'mrt_khlong_toei',
+    name: 'Khlong Toei',
+    nameTh: 'คลองเตย',
+    aliases: ['Khlong Toey', 'Klong Toey'],
+    line: 'mrt_blue',
+    lat: 13.7221,
+    lng: 100.5544,
+  },
+  {
+    id: 'mrt_lumphini',
+    name: 'Lumphini',
+    nameTh: 'ลุมพินี',
+    aliases: ['Lumpini'],
+    line: 'mrt_blue',
+    lat: 13.7256,
+    lng: 100.5457,
+  },
+  { id: 'mrt_silom', name: 'Silom', nameTh: 'สีลม', line: 'mrt_blue', lat: 13.7292, lng: 100.5371 },
+  {
+    id: 'mrt_sam_yan',
+    name: 'Sam Yan',
+    nameTh: 'สามย่าน',
+    aliases: ['Samyan'],
+    line: 'mrt_blue',
+    lat: 13.7321,
+    lng: 100.5301,
+  },
+  {
+    id: 'mrt_hua_lamphong',
+    name: 'Hua Lamphong',
+    nameTh: 'หัวลำโพง',
+    aliases: ['Hualamphong'],
+    line: 'mrt_blue',
+    lat: 13.7376,
+    lng: 100.5171,
+  },
+  {
+    id: 'mrt_wat_mangkon',
+    name: 'Wat Mangkon',
+    nameTh: 'วัดมังกร',
+    line: 'mrt_blue',
+    lat: 13.7422,
+    lng: 100.5099,
+  },
+  {
+    id: 'mrt_sam_yot',
+    name: 'Sam Yot',
+    nameTh: 'สามยอด',
+    line: 'mrt_blue',
+    lat: 13.747,
+    lng: 100.5023,
+  },
+  {
+    id: 'mrt_sanam_chai',
+    name: 'Sanam Chai',
+    nameTh: 'สนามไชย',
+    line: 'mrt_blue',
+    lat: 13.7443,
+    lng: 100.4946,
+  },
+  {
+    id: 'mrt_itsaraphap',
+    name: 'Itsaraphap',
+    nameTh: 'อิสรภาพ',
+    aliases: ['Issaraphap'],
+    line: 'mrt_blue',
+    lat: 13.7384,
+    lng: 100.4857,
+  },
+  {
+    id: 'mrt_bang_phai',
+    name: 'Bang Phai',
+    nameTh: 'บางไผ่',
+    line: 'mrt_blue',
+    lat: 13.7246,
+    lng: 100.4651,
+  },
+  {
+    id: 'mrt_bang_wa',
+    name: 'Bang Wa',
+    nameTh: 'บางหว้า',
+    line: 'mrt_blue',
+    lat: 13.7208,
+    lng: 100.4578,
+  },
+  {
+    id: 'mrt_phetkasem_48',
+    name: 'Phetkasem 48',
+    nameTh: 'เพชรเกษม 48',
+    line: 'mrt_blue',
+    lat: 13.7156,
+    lng: 100.4455,
+  },
+  {
+    id: 'mrt_phasi_charoen',
+    name: 'Phasi Charoen',
+    nameTh: 'ภาษีเจริญ',
+    line: 'mrt_blue',
+    lat: 13.7129,
+    lng: 100.4343,
+  },
+  {
+    id: 'mrt_bang_khae',
+    name: 'Bang Khae',
+    nameTh: 'บางแค',
+    line: 'mrt_blue',
+    lat: 13.7119,
+    lng: 100.4223,
+  },
+  {
+    id: 'mrt_lak_song',
+    name: 'Lak Song',
+    nameTh: 'หลักสอง',
+    line: 'mrt_blue',
+    lat: 13.7109,
+    lng: 100.4095,
+  },
+  {
+    id: 'bts_khu_khot',
+    name: 'Khu Khot',
+    nameTh: 'คูคต',
+    line: 'bts_sukhumvit',
+    lat: 13.9324,
+    lng: 100.6465,
+  },
+  {
+    id: 'bts_yaek_kor_por_or',
+    name: 'Yaek Kor Por Or',
+    nameTh: 'แยก คปอ.',
+    line: 'bts_sukhumvit',
+    lat: 13.925,
+    lng: 100.6258,
+  },
+  {
+    id: 'bts_royal_thai_air_force_museum',
+    name: 'Royal Thai Air Force Museum',
+    nameTh: 'พิพิธภัณฑ์กองทัพอากาศ',
+    line: 'bts_sukhumvit',
+    lat: 13.918,
+    lng: 100.6217,
+  },
+  {
+    id: 'bts_bhumibol_hospital',
+    name: 'Bhumibol Adulyadej Hospital',
+    nameTh: 'โรงพยาบาลภูมิพลอดุลยเดช',
+    aliases: ['Bhumibol Hospital'],
+    line: 'bts_sukhumvit',
+    lat: 13.9107,
+    lng: 100.6174,
+  },
+  {
+    id: 'bts_saphan_mai',
+    name: 'Saphan Mai',
+    nameTh: 'สะพานใหม่',
+    line: 'bts_sukhumvit',
+    lat: 13.8966,
+    lng: 100.6091,
+  },
+  {
+    id: 'bts_sai_yud',
+    name: 'Sai Yud',
+    nameTh: 'สายหยุด',
+    line: 'bts_sukhumvit',
+    lat: 13.8885,
+    lng: 100.6043,
+  },
+  {
+    id: 'bts_phahon_yothin_59',
+    name: 'Phahon Yothin 59',
+    nameTh: 'พหลโยธิน 59',
+    line: 'bts_sukhumvit',
+    lat: 13.8824,
+    lng: 100.6007,
+  },
+  {
+    id: 'bts_wat_phra_sri_mahathat',
+    name: 'Wat Phra Sri Mahathat',
+    nameTh: 'วัดพระศรีมหาธาตุ',
+    line: 'bts_sukhumvit',
+    lat: 13.8753,
+    lng: 100.5967,
+  },
+  {
+    id: 'bts_11th_infantry',
+    name: '11th Infantry Regiment',
+    nameTh: 'กรมทหารราบที่ 11',
+    line: 'bts_sukhumvit',
+    lat: 13.8676,
+    lng: 100.592,
+  },
+  {
+    id: 'bts_bang_bua',
+    name: 'Bang Bua',
+    nameTh: 'บางบัว',
+    line: 'bts_sukhumvit',
+    lat: 13.856,
+    lng: 100.5852,
+  },
+  {
+    id: 'bts_royal_forest_dept',
+    name: 'Royal Forest Department',
+    nameTh: 'กรมป่าไม้',
+    line: 'bts_sukhumvit',
+    lat: 13.8503,
+    lng: 100.5818,
+  },
+  {
+    id: 'bts_kasetsart',
+    name: 'Kasetsart University',
+    nameTh: 'มหาวิทยาลัยเกษตรศาสตร์',
+    aliases: ['Kasetsart', 'Kaset'],
+    line: 'bts_sukhumvit',
+    lat: 13.8423,
+    lng: 100.5771,
+  },
+  {
+    id: 'bts_sena_nikhom',
+    name: 'Sena Nikhom',
+    nameTh: 'เสนานิคม',
+    line: 'bts_sukhumvit',
+    lat: 13.8364,
+    lng: 100.5736,
+  },
+  {
+    id: 'bts_ratchayothin',
+    name: 'Ratchayothin',
+    nameTh: 'รัชโยธิน',
+    line: 'bts_sukhumvit',
+    lat: 13.8297,
+    lng: 100.5697,
+  },
+  {
+    id: 'bts_phahon_yothin_24',
+    name: 'Phahon Yothin 24',
+    nameTh: 'พหลโยธิน 24',
+    line: 'bts_sukhumvit',
+    lat: 13.8241,
+    lng: 100.5664,
+  },
+  {
+    id: 'bts_ha_yaek_lat_phrao',
+    name: 'Ha Yaek Lat Phrao',
+    nameTh: 'ห้าแยกลาดพร้าว',
+    aliases: ['Ha Yaek Ladprao'],
+    line: 'bts_sukhumvit',
+    lat: 13.8167,
+    lng: 100.562,
+  },
+  {
+    id: 'bts_mo_chit',
+    name: 'Mo Chit',
+    nameTh: 'หมอชิต',
+    aliases: ['Mochit'],
+    line: 'bts_sukhumvit',
+    lat: 13.8026,
+    lng: 100.5538,
+  },
+  {
+    id: 'bts_saphan_khwai',
+    name: 'Saphan Khwai',
+    nameTh: 'สะพานควาย',
+    aliases: ['Saphan Kwai'],
+    line: 'bts_sukhumvit',
+    lat: 13.7938,
+    lng: 100.5497,
+  },
+  {
+    id: 'bts_ari',
+    name: 'Ari',
+    nameTh: 'อารีย์',
+    aliases: ['Aree'],
+    line: 'bts_sukhumvit',
+    lat: 13.7797,
+    lng: 100.5446,
+  },
+  {
+    id: 'bts_sanam_pao',
+    name: 'Sanam Pao',
+    nameTh: 'สนามเป้า',
+    line: 'bts_sukhumvit',
+    lat: 13.7726,
+    lng: 100.5421,
+  },
+  {
+    id: 'bts_victory_monument',
+    name: 'Victory Monument',
+    nameTh: 'อนุสาวรีย์ชัยสมรภูมิ',
+    aliases: ['Anusawari'],
+    line: 'bts_sukhumvit',
+    lat: 13.7628,
+    lng: 100.5371,
+  },
+  {
+    id: 'bts_phaya_thai',
+    name: 'Phaya Thai',
+    nameTh: 'พญาไท',
+    line: 'bts_sukhumvit',
+    lat: 13.757,
+    lng: 100.5338,
+  },
+  {
+    id: 'bts_ratchathewi',
+    name: 'Ratchathewi',
+    nameTh: 'ราชเทวี',
+    aliases: ['Ratchathewee'],
+    line: 'bts_sukhumvit',
+    lat: 13.7519,
+    lng: 100.5316,
+  },
+  {
+    id: 'bts_siam',
+    name: 'Siam',
+    nameTh: 'สยาม',
+    line: 'bts_sukhumvit',
+    lat: 13.7456,
+    lng: 100.5342,
+  },
+  {
+    id: 'bts_chit_lom',
+    name: 'Chit Lom',
+    nameTh: 'ชิดลม',
+    aliases: ['Chidlom'],
+    line: 'bts_sukhumvit',
+    lat: 13.7441,
+    lng: 100.5431,
+  },
+  {
+    id: 'bts_ploen_chit',
+    name: 'Ploen Chit',
+    nameTh: 'เพลินจิต',
+    aliases: ['Phloen Chit'],
+    line: 'bts_sukhumvit',
+    lat: 13.7431,
+    lng: 100.549,
+  },
+  {
+    id: 'bts_nana',
+    name: 'Nana',
+    nameTh: 'นานา',
+    line: 'bts_sukhumvit',
+    lat: 13.7405,
+    lng: 100.5554,
+  },
+  {
+    id: 'bts_asok',
+    name: 'Asok',
+    nameTh: 'อโศก',
+    aliases: ['Asoke'],
+    line: 'bts_sukhumvit',
+    lat: 13.737,
+    lng: 100.5604,
+  },
+  {
+    id: 'bts_phrom_phong',
+    name: 'Phrom Phong',
+    nameTh: 'พร้อมพงษ์',
+    aliases: ['Phrom Pong'],
+    line: 'bts_sukhumvit',
+    lat: 13.7304,
+    lng: 100.5697,
+  },
+  {
+    id: 'bts_thong_lo',
+    name: 'Thong Lo',
+    nameTh: 'ทองหล่อ',
+    aliases: ['Thong Lor'],
+    line: 'bts_sukhumvit',
+    lat: 13.7242,
+    lng: 100.5785,
+  },
+  {
+    id: 'bts_ekkamai',
+    name: 'Ekkamai',
+    nameTh: 'เอกมัย',
+    aliases: ['Ekamai'],
+    line: 'bts_sukhumvit',
+    lat: 13.7195,
+    lng: 100.5851,
+  },
+  {
+    id: 'bts_phra_khanong',
+    name: 'Phra Khanong',
+    nameTh: 'พระโขนง',
+    line: 'bts_sukhumvit',
+    lat: 13.7152,
+    lng: 100.5912,
+  },
+  {
+    id: 'bts_on_nut',
+    name: 'On Nut',
+    nameTh: 'อ่อนนุช',
+    aliases: ['On Nuch'],
+    line: 'bts_sukhumvit',
+    lat: 13.7056,
+    lng: 100.601,
+  },
+  {
+    id: 'bts_bang_chak',
+    name: 'Bang Chak',
+    nameTh: 'บางจาก',
+    line: 'bts_sukhumvit',
+    lat: 13.6968,
+    lng: 100.6053,
+  },
+  {
+    id: 'bts_punnawithi',
+    name: 'Punnawithi',
+    nameTh: 'ปุณณวิถี',
+    line: 'bts_sukhumvit',
+    lat: 13.6893,
+    lng: 100.609,
+  },
+  {
+    id: 'bts_udom_suk',
+    name: 'Udom Suk',
+    nameTh: 'อุดมสุข',
+    aliases: ['Udomsuk'],
+    line: 'bts_sukhumvit',
+    lat: 13.6799,
+    lng: 100.6095,
+  },
+  {
+    id: 'bts_bang_na',
+    name: 'Bang Na',
+    nameTh: 'บางนา',
+    line: 'bts_sukhumvit',
+    lat: 13.6681,
+    lng: 100.6047,
+  },
+  {
+    id: 'bts_bearing',
+    name: 'Bearing',
+    nameTh: 'แบริ่ง',
+    line: 'bts_sukhumvit',
+    lat: 13.6612,
+    lng: 100.6018,
+  },
+  {
+    id: 'bts_samrong',
+    name: 'Samrong',
+    nameTh: 'สำโรง',
+    line: 'bts_sukhumvit',
+    lat: 13.6465,
+    lng: 100.5958,
+  },
+  {
+    id: 'bts_pu_chao',
+    name: 'Pu Chao',
+    nameTh: 'ปู่เจ้า',
+    line: 'bts_sukhumvit',
+    lat: 13.6373,
+    lng: 100.592,
+  },
+  {
+    id: 'bts_chang_erawan',
+    name: 'Chang Erawan',
+    nameTh: 'ช้างเอราวัณ',
+    line: 'bts_sukhumvit',
+    lat: 13.6216,
+    lng: 100.5902,
+  },
+  {
+    id: 'bts_royal_thai_naval_academy',
+    name: 'Royal Thai Naval Academy',
+    nameTh: 'โรงเรียนนายเรือ',
+    line: 'bts_sukhumvit',
+    lat: 13.6084,
+    lng: 100.5949,
+  },
+  {
+    id: 'bts_pak_nam',
+    name: 'Pak Nam',
+    nameTh: 'ปากน้ำ',
+    line: 'bts_sukhumvit',
+    lat: 13.6021,
+    lng: 100.5971,
+  },
+  {
+    id: 'bts_srinagarindra',
+    name: 'Srinagarindra',
+    nameTh: 'ศรีนครินทร์',
+    line: 'bts_sukhumvit',
+    lat: 13.592,
+    lng: 100.609,
+  },
+  {
+    id: 'bts_phraek_sa',
+    name: 'Phraek Sa',
+    nameTh: 'แพรกษา',
+    line: 'bts_sukhumvit',
+    lat: 13.5842,
+    lng: 100.6079,
+  },
+  {
+    id: 'bts_sai_luat',
+    name: 'Sai Luat',
+    nameTh: 'สายลวด',
+    line: 'bts_sukhumvit',
+    lat: 13.5778,
+    lng: 100.6055,
+  },
+  {
+    id: 'bts_kheha',
+    name: 'Kheha',
+    nameTh: 'เคหะฯ',
+    line: 'bts_sukhumvit',
+    lat: 13.5677,
+    lng: 100.6077,
+  },
+  {
+    id: 'bts_national_stadium',
+    name: 'National Stadium',
+    nameTh: 'สนามกีฬาแห่งชาติ',
+    aliases: ['Sanam Kila'],
+    line: 'bts_silom',
+    lat: 13.7465,
+    lng: 100.5291,
+  },
+  {
+    id: 'bts_siam_silom',
+    name: 'Siam',
+    nameTh: 'สยาม',
+    line: 'bts_silom',
+    lat: 13.7456,
+    lng: 100.5342,
+  },
+  {
+    id: 'bts_ratchadamri',
+    name: 'Ratchadamri',
+    nameTh: 'ราชดำริ',
+    line: 'bts_silom',
+    lat: 13.7395,
+    lng: 100.5394,
+  },
+  {
+    id: 'bts_sala_daeng',
+    name: 'Sala Daeng',
+    nameTh: 'ศาลาแดง',
+    line: 'bts_silom',
+    lat: 13.7286,
+    lng: 100.5343,
+  },
+  {
+    id: 'bts_chong_nonsi',
+    name: 'Chong Nonsi',
+    nameTh: 'ช่องนนทรี',
+    aliases: ['Chong Nonsri'],
+    line: 'bts_silom',
+    lat: 13.7238,
+    lng: 100.5293,
+  },
+  {
+    id: 'bts_saint_louis',
+    name: 'Saint Louis',
+    nameTh: 'เซนต์หลุยส์',
+    aliases: ['St Louis'],
+    line: 'bts_silom',
+    lat: 13.7208,
+    lng: 100.5267,
+  },
+  {
+    id: 'bts_surasak',
+    name: 'Surasak',
+    nameTh: 'สุรศักดิ์',
+    line: 'bts_silom',
+    lat: 13.7193,
+    lng: 100.5215,
+  },
+  {
+    id: 'bts_saphan_taksin',
+    name: 'Saphan Taksin',
+    nameTh: 'สะพานตากสิน',
+    line: 'bts_silom',
+    lat: 13.7188,
+    lng: 100.5142,
+  },
+  {
+    id: 'bts_krung_thon_buri',
+    name: 'Krung Thon Buri',
+    nameTh: 'กรุงธนบุรี',
+    aliases: ['Krungthon Buri'],
+    line: 'bts_silom',
+    lat: 13.7209,
+    lng: 100.5027,
+  },
+  {
+    id: 'bts_wongwian_yai',
+    name: 'Wongwian Yai',
+    nameTh: 'วงเวียนใหญ่',
+    aliases: ['Wong Wian Yai'],
+    line: 'bts_silom',
+    lat: 13.7211,
+    lng: 100.4952,
+  },
+  {
+    id: 'bts_pho_nimit',
+    name: 'Pho Nimit',
+    nameTh: 'โพธิ์นิมิตร',
+    line: 'bts_silom',
+    lat: 13.7192,
+    lng: 100.486,
+  },
+  {
+    id: 'bts_talat_phlu',
+    name: 'Talat Phlu',
+    nameTh: 'ตลาดพลู',
+    line: 'bts_silom',
+    lat: 13.7142,
+    lng: 100.4767,
+  },
+  {
+    id: 'bts_wutthakat',
+    name: 'Wutthakat',
+    nameTh: 'วุฒากาศ',
+    line: 'bts_silom',
+    lat: 13.713,
+    lng: 100.4689,
+  },
+  {
+    id: 'bts_bang_wa_silom',
+    name: 'Bang Wa',
+    nameTh: 'บางหว้า',
+    line: 'bts_silom',
+    lat: 13.7208,
+    lng: 100.4578,
+  },
+  {
+    id: 'arl_phaya_thai',
+    name: 'Phaya Thai',
+    nameTh: 'พญาไท',
+    line: 'arl',
+    lat: 13.7567,
+    lng: 100.5349,
+  },
+  {
+    id: 'arl_ratchaprarop',
+    name: 'Ratchaprarop',
+    nameTh: 'ราชปรารภ',
+    line: 'arl',
+    lat: 13.7551,
+    lng: 100.5421,
+  },
+  {
+    id: 'arl_makkasan',
+    name: 'Makkasan',
+    nameTh: 'มักกะสัน',
+    aliases: ['City Air Terminal'],
+    line: 'arl',
+    lat: 13.7509,
+    lng: 100.5611,
+  },
+  {
+    id: 'arl_ramkhamhaeng',
+    name: 'Ramkhamhaeng',
+    nameTh: 'รามคำแหง',
+    line: 'arl',
+    lat: 13.743,
+    lng: 100.6002,
+  },
+  { id: 'arl_hua_mak', name: 'Hua Mak', nameTh: 'หัวหมาก', line: 'arl', lat: 13.738, lng: 100.6453 },
+  {
+    id: 'arl_ban_thap_chang',
+    name: 'Ban Thap Chang',
+    nameTh: 'บ้านทับช้าง',
+    line: 'arl',
+    lat: 13.7329,
+    lng: 100.6908,
+  },
+  {
+    id: 'arl_lat_krabang',
+    name: 'Lat Krabang',
+    nameTh: 'ลาดกระบัง',
+    line: 'arl',
+    lat: 13.7277,
+    lng: 100.7486,
+  },
+  {
+    id: 'arl_suvarnabhumi',
+    name: 'Suvarnabhumi',
+    nameTh: 'สุวรรณภูมิ',
+    aliases: ['Suvarnabhumi Airport', 'สนามบินสุวรรณภูมิ'],
+    line: 'arl',
+    lat: 13.6943,
+    lng: 100.7513,
+  },
+  {
+    id: 'mrt_khlong_bang_phai',
+    name: 'Khlong Bang Phai',
+    nameTh: 'คลองบางไผ่',
+    line: 'mrt_purple',
+    lat: 13.8926,
+    lng: 100.4094,
+  },
+  {
+    id: 'mrt_talad_bang_yai',
+    name: 'Talad Bang Yai',
+    nameTh: 'ตลาดบางใหญ่',
+    line: 'mrt_purple',
+    lat: 13.8767,
+    lng: 100.4112,
+  },
+  {
+    id: 'mrt_sam_yaek_bang_yai',
+    name: 'Sam Yaek Bang Yai',
+    nameTh: 'สามแยกบางใหญ่',
+    line: 'mrt_purple',
+    lat: 13.8706,
+    lng: 100.4196,
+  },
+  {
+    id: 'mrt_bang_phlu',
+    name: 'Bang Phlu',
+    nameTh: 'บางพลู',
+    line: 'mrt_purple',
+    lat: 13.868,
+    lng: 100.4312,
+  },
+  {
+    id: 'mrt_bang_rak_yai',
+    name: 'Bang Rak Yai',
+    nameTh: 'บางรักใหญ่',
+    line: 'mrt_purple',
+    lat: 13.8665,
+    lng: 100.444,
+  },
+  {
+    id: 'mrt_bang_rak_noi_tha_it',
+    name: 'Bang Rak Noi Tha It',
+    nameTh: 'บางรักน้อยท่าอิฐ',
+    line: 'mrt_purple',
+    lat: 13.866,
+    lng: 100.466,
+  },
+  {
+    id: 'mrt_sai_ma',
+    name: 'Sai Ma',
+    nameTh: 'ไทรม้า',
+    line: 'mrt_purple',
+    lat: 13.8624,
+    lng: 100.477,
+  },
+  {
+    id: 'mrt_phra_nang_klao_bridge',
+    name: 'Phra Nang Klao Bridge',
+    nameTh: 'สะพานพระนั่งเกล้า',
+    line: 'mrt_purple',
+    lat: 13.8621,
+    lng: 100.4855,
+  },
+  {
+    id: 'mrt_yaek_nonthaburi_1',
+    name: 'Yaek Nonthaburi 1',
+    nameTh: 'แยกนนทบุรี 1',
+    line: 'mrt_purple',
+    lat: 13.8652,
+    lng: 100.4953,
+  },
+  {
+    id: 'mrt_bang_krasor',
+    name: 'Bang Krasor',
+    nameTh: 'บางกระสอ',
+    line: 'mrt_purple',
+    lat: 13.8631,
+    lng: 100.5075,
+  },
+  {
+    id: 'mrt_nonthaburi_civic_center',
+    name: 'Nonthaburi Civic Center',
+    nameTh: 'ศูนย์ราชการนนทบุรี',
+    line: 'mrt_purple',
+    lat: 13.8587,
+    lng: 100.5137,
+  },
+  {
+    id: 'mrt_ministry_of_public_health',
+    name: 'Ministry of Public Health',
+    nameTh: 'กระทรวงสาธารณสุข',
+    line: 'mrt_purple',
+    lat: 13.8475,
+    lng: 100.5153,
+  },
+  {
+    id: 'mrt_yaek_tiwanon',
+    name: 'Yaek Tiwanon',
+    nameTh: 'แยกติวานนท์',
+    line: 'mrt_purple',
+    lat: 13.8405,
+    lng: 100.5165,
+  },
+  {
+    id: 'mrt_wong_sawang',
+    name: 'Wong Sawang',
+    nameTh: 'วงศ์สว่าง',
+    line: 'mrt_purple',
+    lat: 13.8296,
+    lng: 100.5257,
+  },
+  {
+    id: 'mrt_bang_son',
+    name: 'Bang Son',
+    nameTh: 'บางซ่อน',
+    line: 'mrt_purple',
+    lat: 13.8223,
+    lng: 100.5321,
+  },
+  {
+    id: 'mrt_tao_poon_purple',
+    name: 'Tao Poon',
+    nameTh: 'เตาปูน',
+    aliases: ['Tao Pun', 'Taopoon'],
+    line: 'mrt_purple',
+    lat: 13.8062,
+    lng: 100.5308,
+  },
+  {
+    id: 'mrt_lat_phrao_yellow',
+    name: 'Lat Phrao',
+    nameTh: 'ลาดพร้าว',
+    aliases: ['Ladprao'],
+    line: 'mrt_yellow',
+    lat: 13.8065,
+    lng: 100.5729,
+  },
+  {
+    id: 'mrt_phawana',
+    name: 'Phawana',
+    nameTh: 'ภาวนา',
+    line: 'mrt_yellow',
+    lat: 13.803,
+    lng: 100.583,
+  },
+  {
+    id: 'mrt_chok_chai_4',
+    name: 'Chok Chai 4',
+    nameTh: 'โชคชัย 4',
+    line: 'mrt_yellow',
+    lat: 13.797,
+    lng: 100.593,
+  },
+  {
+    id: 'mrt_lat_phrao_71',
+    name: 'Lat Phrao 71',
+    nameTh: 'ลาดพร้าว 71',
+    line: 'mrt_yellow',
+    lat: 13.7935,
+    lng: 100.603,
+  },
+  {
+    id: 'mrt_lat_phrao_83',
+    name: 'Lat Phrao 83',
+    nameTh: 'ลาดพร้าว 83',
+    line: 'mrt_yellow',
+    lat: 13.7905,
+    lng: 100.611,
+  },
+  {
+    id: 'mrt_mahat_thai',
+    name: 'Mahat Thai',
+    nameTh: 'มหาดไทย',
+    line: 'mrt_yellow',
+    lat: 13.788,
+    lng: 100.618,
+  },
+  {
+    id: 'mrt_lat_phrao_101',
+    name: 'Lat Phrao 101',
+    nameTh: 'ลาดพร้าว 101',
+    line: 'mrt_yellow',
+    lat: 13.786,
+    lng: 100.6255,
+  },
+  {
+    id: 'mrt_bang_kapi',
+    name: 'Bang Kapi',
+    nameTh: 'บางกะปิ',
+    aliases: ['Bangkapi'],
+    line: 'mrt_yellow',
+    lat: 13.7706,
+    lng: 100.6436,
+  },
+  {
+    id: 'mrt_yaek_lam_sali',
+    name: 'Yaek Lam Sali',
+    nameTh: 'แยกลำสาลี',
+    line: 'mrt_yellow',
+    lat: 13.7625,
+    lng: 100.649,
+  },
+  {
+    id: 'mrt_si_kritha',
+    name: 'Si Kritha',
+    nameTh: 'ศรีกรีฑา',
+    line: 'mrt_yellow',
+    lat: 13.748,
+    lng: 100.6455,
+  },
+  {
+    id: 'mrt_hua_mak',
+    name: 'Hua Mak',
+    nameTh: 'หัวหมาก',
+    line: 'mrt_yellow',
+    lat: 13.738,
+    lng: 100.6453,
+  },
+  {
+    id: 'mrt_kalantan',
+    name: 'Kalantan',
+    nameTh: 'กลันตัน',
+    line: 'mrt_yellow',
+    lat: 13.728,
+    lng: 100.646,
+  },
+  {
+    id: 'mrt_si_nut',
+    name: 'Si Nut',
+    nameTh: 'ศรีนุช',
+    line: 'mrt_yellow',
+    lat: 13.7165,
+    lng: 100.6465,
+  },
+  {
+    id: 'mrt_srinagarindra_38',
+    name: 'Srinagarindra 38',
+    nameTh: 'ศรีนครินทร์ 38',
+    line: 'mrt_yellow',
+    lat: 13.705,
+    lng: 100.6475,
+  },
+  {
+    id: 'mrt_suan_luang_rama_ix',
+    name: 'Suan Luang Rama IX',
+    nameTh: 'สวนหลวง ร.9',
+    aliases: ['Suan Luang Rama 9'],
+    line: 'mrt_yellow',
+    lat: 13.6935,
+    lng: 100.648,
+  },
+  {
+    id: 'mrt_si_udom',
+    name: 'Si Udom',
+    nameTh: 'ศรีอุดม',
+    line: 'mrt_yellow',
+    lat: 13.681,
+    lng: 100.6485,
+  },
+  {
+    id: 'mrt_si_iam',
+    name: 'Si Iam',
+    nameTh: 'ศรีเอี่ยม',
+    line: 'mrt_yellow',
+    lat: 13.668,
+    lng: 100.649,
+  },
+  {
+    id: 'mrt_si_la_salle',
+    name: 'Si La Salle',
+    nameTh: 'ศรีลาซาล',
+    line: 'mrt_yellow',
+    lat: 13.6565,
+    lng: 100.648,
+  },
+  {
+    id: 'mrt_si_bearing',
+    name: 'Si Bearing',
+    nameTh: 'ศรีแบริ่ง',
+    line: 'mrt_yellow',
+    lat: 13.645,
+    lng: 100.647,
+  },
+  {
+    id: 'mrt_si_dan',
+    name: 'Si Dan',
+    nameTh: 'ศรีด่าน',
+    line: 'mrt_yellow',
+    lat: 13.63,
+    lng: 100.644,
+  },
+  {
+    id: 'mrt_si_thepha',
+    name: 'Si Thepha',
+    nameTh: 'ศรีเทพา',
+    line: 'mrt_yellow',
+    lat: 13.633,
+    lng: 100.631,
+  },
+  {
+    id: 'mrt_thipphawan',
+    name: 'Thipphawan',
+    nameTh: 'ทิพวัล',
+    line: 'mrt_yellow',
+    lat: 13.6385,
+    lng: 100.614,
+  },
+  {
+    id: 'mrt_samrong_yellow',
+    name: 'Samrong',
+    nameTh: 'สำโรง',
+    line: 'mrt_yellow',
+    lat: 13.6465,
+    lng: 100.5958,
+  },
+  {
+    id: 'mrt_nonthaburi_civic_center_pink',
+    name: 'Nonthaburi Civic Center',
+    nameTh: 'ศูนย์ราชการนนทบุรี',
+    line: 'mrt_pink',
+    lat: 13.8587,
+    lng: 100.5137,
+  },
+  {
+    id: 'mrt_khae_rai',
+    name: 'Khae Rai',
+    nameTh: 'แคราย',
+    line: 'mrt_pink',
+    lat: 13.8625,
+    lng: 100.5175,
+  },
+  {
+    id: 'mrt_sanambin_nam',
+    name: 'Sanambin Nam',
+    nameTh: 'สนามบินน้ำ',
+    line: 'mrt_pink',
+    lat: 13.872,
+    lng: 100.514,
+  },
+  {
+    id: 'mrt_samakkhi',
+    name: 'Samakkhi',
+    nameTh: 'สามัคคี',
+    line: 'mrt_pink',
+    lat: 13.883,
+    lng: 100.512,
+  },
+  {
+    id: 'mrt_royal_irrigation_department',
+    name: 'Royal Irrigation Department',
+    nameTh: 'กรมชลประทาน',
+    line: 'mrt_pink',
+    lat: 13.8935,
+    lng: 100.51,
+  },
+  {
+    id: 'mrt_yaek_pak_kret',
+    name: 'Yaek Pak Kret',
+    nameTh: 'แยกปากเกร็ด',
+    line: 'mrt_pink',
+    lat: 13.9045,
+    lng: 100.5085,
+  },
+  {
+    id: 'mrt_pak_kret_bypass',
+    name: 'Pak Kret Bypass',
+    nameTh: 'เลี่ยงเมืองปากเกร็ด',
+    line: 'mrt_pink',
+    lat: 13.908,
+    lng: 100.52,
+  },
+  {
+    id: 'mrt_chaeng_watthana_pak_kret_28',
+    name: 'Chaeng Watthana–Pak Kret 28',
+    nameTh: 'แจ้งวัฒนะ-ปากเกร็ด 28',
+    line: 'mrt_pink',
+    lat: 13.906,
+    lng: 100.53,
+  },
+  {
+    id: 'mrt_si_rat',
+    name: 'Si Rat',
+    nameTh: 'ศรีรัช',
+    line: 'mrt_pink',
+    lat: 13.9035,
+    lng: 100.538,
+  },
+  {
+    id: 'mrt_muang_thong_thani',
+    name: 'Muang Thong Thani',
+    nameTh: 'เมืองทองธานี',
+    aliases: ['Mueang Thong Thani'],
+    line: 'mrt_pink',
+    lat: 13.9,
+    lng: 100.5455,
+  },
+  {
+    id: 'mrt_chaeng_watthana_14',
+    name: 'Chaeng Watthana 14',
+    nameTh: 'แจ้งวัฒนะ 14',
+    line: 'mrt_pink',
+    lat: 13.896,
+    lng: 100.553,
+  },
+  {
+    id: 'mrt_government_complex',
+    name: 'Government Complex',
+    nameTh: 'ศูนย์ราชการแจ้งวัฒนะ',
+    line: 'mrt_pink',
+    lat: 13.8855,
+    lng: 100.564,
+  },
+  {
+    id: 'mrt_national_telecom',
+    name: 'National Telecom',
+    nameTh: 'โทรคมนาคมแห่งชาติ',
+    line: 'mrt_pink',
+    lat: 13.8855,
+    lng: 100.572,
+  },
+  {
+    id: 'mrt_lak_si',
+    name: 'Lak Si',
+    nameTh: 'หลักสี่',
+    line: 'mrt_pink',
+    lat: 13.887,
+    lng: 100.579,
+  },
+  {
+    id: 'mrt_rajabhat_phranakhon',
+    name: 'Rajabhat Phranakhon',
+    nameTh: 'ราชภัฏพระนคร',
+    line: 'mrt_pink',
+    lat: 13.8815,
+    lng: 100.5875,
+  },
+  {
+    id: 'mrt_wat_phra_sri_mahathat',
+    name: 'Wat Phra Sri Mahathat',
+    nameTh: 'วัดพระศรีมหาธาตุ',
+    line: 'mrt_pink',
+    lat: 13.8753,
+    lng: 100.5967,
+  },
+  {
+    id: 'mrt_ram_inthra_3',
+    name: 'Ram Inthra 3',
+    nameTh: 'รามอินทรา 3',
+    line: 'mrt_pink',
+    lat: 13.8705,
+    lng: 100.606,
+  },
+  {
+    id: 'mrt_lat_pla_khao',
+    name: 'Lat Pla Khao',
+    nameTh: 'ลาดปลาเค้า',
+    line: 'mrt_pink',
+    lat: 13.868,
+    lng: 100.615,
+  },
+  {
+    id: 'mrt_ram_inthra_kor_mor_4',
+    name: 'Ram Inthra Kor Mor 4',
+    nameTh: 'รามอินทรา กม.4',
+    line: 'mrt_pink',
+    lat: 13.865,
+    lng: 100.626,
+  },
+  {
+    id: 'mrt_maiyalap',
+    name: 'Maiyalap',
+    nameTh: 'มัยลาภ',
+    line: 'mrt_pink',
+    lat: 13.862,
+    lng: 100.638,
+  },
+  {
+    id: 'mrt_vacharaphol',
+    name: 'Vacharaphol',
+    nameTh: 'วัชรพล',
+    line: 'mrt_pink',
+    lat: 13.859,
+    lng: 100.647,
+  },
+  {
+    id: 'mrt_ram_inthra_kor_mor_6',
+    name: 'Ram Inthra Kor Mor 6',
+    nameTh: 'รามอินทรา กม.6',
+    line: 'mrt_pink',
+    lat: 13.856,
+    lng: 100.658,
+  },
+  {
+    id: 'mrt_khu_bon',
+    name: 'Khu Bon',
+    nameTh: 'คู้บอน',
+    line: 'mrt_pink',
+    lat: 13.8525,
+    lng: 100.668,
+  },
+  {
+    id: 'mrt_ram_inthra_kor_mor_9',
+    name: 'Ram Inthra Kor Mor 9',
+    nameTh: 'รามอินทรา กม.9',
+    line: 'mrt_pink',
+    lat: 13.849,
+    lng: 100.678,
+  },
+  {
+    id: 'mrt_outer_ring_road_ram_inthra',
+    name: 'Outer Ring Road–Ram Inthra',
+    nameTh: 'วงแหวนรามอินทรา',
+    line: 'mrt_pink',
+    lat: 13.8455,
+    lng: 100.689,
+  },
+  {
+    id: 'mrt_nopparat',
+    name: 'Nopparat',
+    nameTh: 'นพรัตน์',
+    line: 'mrt_pink',
+    lat: 13.842,
+    lng: 100.698,
+  },
+  {
+    id: 'mrt_bang_chan',
+    name: 'Bang Chan',
+    nameTh: 'บางชัน',
+    line: 'mrt_pink',
+    lat: 13.838,
+    lng: 100.708,
+  },
+  {
+    id: 'mrt_setthabutbamphen',
+    name: 'Setthabutbamphen',
+    nameTh: 'เศรษฐบุตรบำเพ็ญ',
+    line: 'mrt_pink',
+    lat: 13.83,
+    lng: 100.719,
+  },
+  {
+    id: 'mrt_min_buri_market',
+    name: 'Min Buri Market',
+    nameTh: 'ตลาดมีนบุรี',
+    line: 'mrt_pink',
+    lat: 13.816,
+    lng: 100.723,
+  },
+  {
+    id: 'mrt_min_buri',
+    name: 'Min Buri',
+    nameTh: 'มีนบุรี',
+    aliases: ['Minburi'],
+    line: 'mrt_pink',
+    lat: 13.812,
+    lng: 100.728,
+  },
+  {
+    id: 'mrt_impact_muang_thong_thani',
+    name: 'Impact Muang Thong Thani',
+    nameTh: 'อิมแพ็ค เมืองทองธานี',
+    aliases: ['Impact', 'Impact Arena'],
+    line: 'mrt_pink',
+    lat: 13.9125,
+    lng: 100.5465,
+  },
+  {
+    id: 'mrt_lake_muang_thong_thani',
+    name: 'Lake Muang Thong Thani',
+    nameTh: 'ทะเลสาบเมืองทองธานี',
+    line: 'mrt_pink',
+    lat: 13.917,
+    lng: 100.558,
+  },
+  {
+    id: 'srt_krung_thep_aphiwat',
+    name: 'Krung Thep Aphiwat',
+    nameTh: 'กรุงเทพอภิวัฒน์',
+    aliases: ['Bang Sue Grand', 'สถานีกลางบางซื่อ'],
+    line: 'srt_dark_red',
+    lat: 13.804,
+    lng: 100.539,
+  },
+  {
+    id: 'srt_chatuchak',
+    name: 'Chatuchak',
+    nameTh: 'จตุจักร',
+    line: 'srt_dark_red',
+    lat: 13.818,
+    lng: 100.552,
+  },
+  {
+    id: 'srt_wat_samian_nari',
+    name: 'Wat Samian Nari',
+    nameTh: 'วัดเสมียนนารี',
+    line: 'srt_dark_red',
+    lat: 13.8305,
+    lng: 100.5545,
+  },
+  {
+    id: 'srt_bang_khen',
+    name: 'Bang Khen',
+    nameTh: 'บางเขน',
+    line: 'srt_dark_red',
+    lat: 13.842,
+    lng: 100.5575,
+  },
+  {
+    id: 'srt_thung_song_hong',
+    name: 'Thung Song Hong',
+    nameTh: 'ทุ่งสองห้อง',
+    line: 'srt_dark_red',
+    lat: 13.862,
+    lng: 100.565,
+  },
+  {
+    id: 'srt_lak_si',
+    name: 'Lak Si',
+    nameTh: 'หลักสี่',
+    line: 'srt_dark_red',
+    lat: 13.888,
+    lng: 100.5785,
+  },
+  {
+    id: 'srt_kan_kheha',
+    name: 'Kan Kheha',
+    nameTh: 'การเคหะ',
+    line: 'srt_dark_red',
+    lat: 13.9,
+    lng: 100.589,
+  },
+  {
+    id: 'srt_don_mueang',
+    name: 'Don Mueang',
+    nameTh: 'ดอนเมือง',
+    aliases: ['Don Muang'],
+    line: 'srt_dark_red',
+    lat: 13.919,
+    lng: 100.603,
+  },
+  {
+    id: 'srt_lak_hok',
+    name: 'Lak Hok',
+    nameTh: 'หลักหก',
+    line: 'srt_dark_red',
+    lat: 13.948,
+    lng: 100.613,
+  },
+  {
+    id: 'srt_rangsit',
+    name: 'Rangsit',
+    nameTh: 'รังสิต',
+    line: 'srt_dark_red',
+    lat: 13.965,
+    lng: 100.619,
+  },
+  {
+    id: 'srt_krung_thep_aphiwat_light_red',
+    name: 'Krung Thep Aphiwat',
+    nameTh: 'กรุงเทพอภิวัฒน์',
+    aliases: ['Bang Sue Grand', 'สถานีกลางบางซื่อ'],
+    line: 'srt_light_red',
+    lat: 13.804,
+    lng: 100.539,
+  },
+  {
+    id: 'srt_bang_son',
+    name: 'Bang Son',
+    nameTh: 'บางซ่อน',
+    line: 'srt_light_red',
+    lat: 13.8217,
+    lng: 100.5325,
+  },
+  {
+    id: 'srt_bang_bamru',
+    name: 'Bang Bamru',
+    nameTh: 'บางบำหรุ',
+    line: 'srt_light_red',
+    lat: 13.798,
+    lng: 100.478,
+  },
+  {
+    id: 'srt_taling_chan',
+    name: 'Taling Chan',
+    nameTh: 'ตลิ่งชัน',
+    line: 'srt_light_red',
+    lat: 13.7765,
+    lng: 100.456,
+  },
+  {
+    id: 'bts_krung_thon_buri_gold',
+    name: 'Krung Thon Buri',
+    nameTh: 'กรุงธนบุรี',
+    line: 'bts_gold',
+    lat: 13.7209,
+    lng: 100.5027,
+  },
+  {
+    id: 'bts_charoen_nakhon',
+    name: 'Charoen Nakhon',
+    nameTh: 'เจริญนคร',
+    line: 'bts_gold',
+    lat: 13.727,
+    lng: 100.5093,
+  },
+  {
+    id: 'bts_khlong_san',
+    name: 'Khlong San',
+    nameTh: 'คลองสาน',
+    line: 'bts_gold',
+    lat: 13.733,
+    lng: 100.51,
+  },
+]
+
+export const generatedLines: Line[] = [
+  {
+    id: 'mrt_blue',
+    name: 'MRT Blue',
+    color: '#1E4F9C',
+    agency: 'bem',
+    routeType: 1,
+    directions: [
+      {
+        id: 'tha_phra',
+        label: 'Tha Phra',
+        patterns: [
+          [
+            'mrt_lak_song',
+            'mrt_bang_khae',
+            'mrt_phasi_charoen',
+            'mrt_phetkasem_48',
+            'mrt_bang_wa',
+            'mrt_bang_phai',
+            'mrt_tha_phra',
+            'mrt_itsaraphap',
+            'mrt_sanam_chai',
+            'mrt_sam_yot',
+            'mrt_wat_mangkon',
+            'mrt_hua_lamphong',
+            'mrt_sam_yan',
+            'mrt_silom',
+            'mrt_lumphini',
+            'mrt_khlong_toei',
+            'mrt_queen_sirikit',
+            'mrt_sukhumvit',
+            'mrt_phetchaburi',
+            'mrt_phra_ram_9',
+            'mrt_thailand_cultural_centre',
+            'mrt_huai_khwang',
+            'mrt_sutthisan',
+            'mrt_ratchadaphisek',
+            'mrt_lat_phrao',
+            'mrt_phahon_yothin',
+            'mrt_chatuchak_park',
+            'mrt_kamphaeng_phet',
+            'mrt_bang_sue',
+            'mrt_tao_poon',
+            'mrt_bang_pho',
+            'mrt_bang_o',
+            'mrt_bang_phlat',
+            'mrt_sirindhorn',
+            'mrt_bang_yi_khan',
+            'mrt_bang_khun_non',
+            'mrt_fai_chai',
+            'mrt_charan_13',
+            'mrt_tha_phra',
+          ],
+        ],
+      },
+      {
+        id: 'lak_song',
+        label: 'Lak Song',
+        patterns: [
+          [
+            'mrt_tha_phra',
+            'mrt_charan_13',
+            'mrt_fai_chai',
+            'mrt_bang_khun_non',
+            'mrt_bang_yi_khan',
+            'mrt_sirindhorn',
+            'mrt_bang_phlat',
+            'mrt_bang_o',
+            'mrt_bang_pho',
+            'mrt_tao_poon',
+            'mrt_bang_sue',
+            'mrt_kamphaeng_phet',
+            'mrt_chatuchak_park',
+            'mrt_phahon_yothin',
+            'mrt_lat_phrao',
+            'mrt_ratchadaphisek',
+            'mrt_sutthisan',
+            'mrt_huai_khwang',
+            'mrt_thailand_cultural_centre',
+            'mrt_phra_ram_9',
+            'mrt_phetchaburi',
+            'mrt_sukhumvit',
+            'mrt_queen_sirikit',
+            'mrt_khlong_toei',
+            'mrt_lumphini',
+            'mrt_silom',
+            'mrt_sam_yan',
+            'mrt_hua_lamphong',
+            'mrt_wat_mangkon',
+            'mrt_sam_yot',
+            'mrt_sanam_chai',
+            'mrt_itsaraphap',
+            'mrt_tha_phra',
+            'mrt_bang_phai',
+            'mrt_bang_wa',
+            'mrt_phetkasem_48',
+            'mrt_phasi_charoen',
+            'mrt_bang_khae',
+            'mrt_lak_song',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 2,
+  },
+  {
+    id: 'bts_sukhumvit',
+    name: 'BTS Sukhumvit',
+    color: '#7ACB3F',
+    agency: 'btsc',
+    routeType: 1,
+    directions: [
+      {
+        id: 'khu_khot',
+        label: 'Khu Khot',
+        patterns: [
+          [
+            'bts_kheha',
+            'bts_sai_luat',
+            'bts_phraek_sa',
+            'bts_srinagarindra',
+            'bts_pak_nam',
+            'bts_royal_thai_naval_academy',
+            'bts_chang_erawan',
+            'bts_pu_chao',
+            'bts_samrong',
+            'bts_bearing',
+            'bts_bang_na',
+            'bts_udom_suk',
+            'bts_punnawithi',
+            'bts_bang_chak',
+            'bts_on_nut',
+            'bts_phra_khanong',
+            'bts_ekkamai',
+            'bts_thong_lo',
+            'bts_phrom_phong',
+            'bts_asok',
+            'bts_nana',
+            'bts_ploen_chit',
+            'bts_chit_lom',
+            'bts_siam',
+            'bts_ratchathewi',
+            'bts_phaya_thai',
+            'bts_victory_monument',
+            'bts_sanam_pao',
+            'bts_ari',
+            'bts_saphan_khwai',
+            'bts_mo_chit',
+            'bts_ha_yaek_lat_phrao',
+            'bts_phahon_yothin_24',
+            'bts_ratchayothin',
+            'bts_sena_nikhom',
+            'bts_kasetsart',
+            'bts_royal_forest_dept',
+            'bts_bang_bua',
+            'bts_11th_infantry',
+            'bts_wat_phra_sri_mahathat',
+            'bts_phahon_yothin_59',
+            'bts_sai_yud',
+            'bts_saphan_mai',
+            'bts_bhumibol_hospital',
+            'bts_royal_thai_air_force_museum',
+            'bts_yaek_kor_por_or',
+            'bts_khu_khot',
+          ],
+        ],
+      },
+      {
+        id: 'kheha',
+        label: 'Kheha',
+        patterns: [
+          [
+            'bts_khu_khot',
+            'bts_yaek_kor_por_or',
+            'bts_royal_thai_air_force_museum',
+            'bts_bhumibol_hospital',
+            'bts_saphan_mai',
+            'bts_sai_yud',
+            'bts_phahon_yothin_59',
+            'bts_wat_phra_sri_mahathat',
+            'bts_11th_infantry',
+            'bts_bang_bua',
+            'bts_royal_forest_dept',
+            'bts_kasetsart',
+            'bts_sena_nikhom',
+            'bts_ratchayothin',
+            'bts_phahon_yothin_24',
+            'bts_ha_yaek_lat_phrao',
+            'bts_mo_chit',
+            'bts_saphan_khwai',
+            'bts_ari',
+            'bts_sanam_pao',
+            'bts_victory_monument',
+            'bts_phaya_thai',
+            'bts_ratchathewi',
+            'bts_siam',
+            'bts_chit_lom',
+            'bts_ploen_chit',
+            'bts_nana',
+            'bts_asok',
+            'bts_phrom_phong',
+            'bts_thong_lo',
+            'bts_ekkamai',
+            'bts_phra_khanong',
+            'bts_on_nut',
+            'bts_bang_chak',
+            'bts_punnawithi',
+            'bts_udom_suk',
+            'bts_bang_na',
+            'bts_bearing',
+            'bts_samrong',
+            'bts_pu_chao',
+            'bts_chang_erawan',
+            'bts_royal_thai_naval_academy',
+            'bts_pak_nam',
+            'bts_srinagarindra',
+            'bts_phraek_sa',
+            'bts_sai_luat',
+            'bts_kheha',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 2,
+  },
+  {
+    id: 'bts_silom',
+    name: 'BTS Silom',
+    color: '#00796B',
+    agency: 'btsc',
+    routeType: 1,
+    directions: [
+      {
+        id: 'national_stadium',
+        label: 'National Stadium',
+        patterns: [
+          [
+            'bts_bang_wa_silom',
+            'bts_wutthakat',
+            'bts_talat_phlu',
+            'bts_pho_nimit',
+            'bts_wongwian_yai',
+            'bts_krung_thon_buri',
+            'bts_saphan_taksin',
+            'bts_surasak',
+            'bts_saint_louis',
+            'bts_chong_nonsi',
+            'bts_sala_daeng',
+            'bts_ratchadamri',
+            'bts_siam_silom',
+            'bts_national_stadium',
+          ],
+        ],
+      },
+      {
+        id: 'bang_wa',
+        label: 'Bang Wa',
+        patterns: [
+          [
+            'bts_national_stadium',
+            'bts_siam_silom',
+            'bts_ratchadamri',
+            'bts_sala_daeng',
+            'bts_chong_nonsi',
+            'bts_saint_louis',
+            'bts_surasak',
+            'bts_saphan_taksin',
+            'bts_krung_thon_buri',
+            'bts_wongwian_yai',
+            'bts_pho_nimit',
+            'bts_talat_phlu',
+            'bts_wutthakat',
+            'bts_bang_wa_silom',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 2,
+  },
+  {
+    id: 'arl',
+    name: 'Airport Rail Link',
+    color: '#8E2339',
+    agency: 'srtet',
+    routeType: 2,
+    directions: [
+      {
+        id: 'phaya_thai',
+        label: 'Phaya Thai',
+        patterns: [
+          [
+            'arl_suvarnabhumi',
+            'arl_lat_krabang',
+            'arl_ban_thap_chang',
+            'arl_hua_mak',
+            'arl_ramkhamhaeng',
+            'arl_makkasan',
+            'arl_ratchaprarop',
+            'arl_phaya_thai',
+          ],
+        ],
+      },
+      {
+        id: 'suvarnabhumi',
+        label: 'Suvarnabhumi',
+        patterns: [
+          [
+            'arl_phaya_thai',
+            'arl_ratchaprarop',
+            'arl_makkasan',
+            'arl_ramkhamhaeng',
+            'arl_hua_mak',
+            'arl_ban_thap_chang',
+            'arl_lat_krabang',
+            'arl_suvarnabhumi',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 4,
+  },
+  {
+    id: 'mrt_purple',
+    name: 'MRT Purple',
+    color: '#6A2C91',
+    agency: 'bem',
+    routeType: 1,
+    directions: [
+      {
+        id: 'khlong_bang_phai',
+        label: 'Khlong Bang Phai',
+        patterns: [
+          [
+            'mrt_tao_poon_purple',
+            'mrt_bang_son',
+            'mrt_wong_sawang',
+            'mrt_yaek_tiwanon',
+            'mrt_ministry_of_public_health',
+            'mrt_nonthaburi_civic_center',
+            'mrt_bang_krasor',
+            'mrt_yaek_nonthaburi_1',
+            'mrt_phra_nang_klao_bridge',
+            'mrt_sai_ma',
+            'mrt_bang_rak_noi_tha_it',
+            'mrt_bang_rak_yai',
+            'mrt_bang_phlu',
+            'mrt_sam_yaek_bang_yai',
+            'mrt_talad_bang_yai',
+            'mrt_khlong_bang_phai',
+          ],
+        ],
+      },
+      {
+        id: 'tao_poon',
+        label: 'Tao Poon',
+        patterns: [
+          [
+            'mrt_khlong_bang_phai',
+            'mrt_talad_bang_yai',
+            'mrt_sam_yaek_bang_yai',
+            'mrt_bang_phlu',
+            'mrt_bang_rak_yai',
+            'mrt_bang_rak_noi_tha_it',
+            'mrt_sai_ma',
+            'mrt_phra_nang_klao_bridge',
+            'mrt_yaek_nonthaburi_1',
+            'mrt_bang_krasor',
+            'mrt_nonthaburi_civic_center',
+            'mrt_ministry_of_public_health',
+            'mrt_yaek_tiwanon',
+            'mrt_wong_sawang',
+            'mrt_bang_son',
+            'mrt_tao_poon_purple',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 2.5,
+    runTimes: {
+      'mrt_tao_poon_purple>mrt_bang_son': 3.5,
+      'mrt_wong_sawang>mrt_yaek_tiwanon': 3,
+      'mrt_yaek_tiwanon>mrt_ministry_of_public_health': 2,
+      'mrt_nonthaburi_civic_center>mrt_bang_krasor': 2,
+      'mrt_phra_nang_klao_bridge>mrt_sai_ma': 2,
+      'mrt_bang_rak_noi_tha_it>mrt_bang_rak_yai': 4.5,
+      'mrt_bang_rak_yai>mrt_bang_phlu': 3,
+      'mrt_talad_bang_yai>mrt_khlong_bang_phai': 3.5,
+      'mrt_khlong_bang_phai>mrt_talad_bang_yai': 3.5,
+      'mrt_bang_phlu>mrt_bang_rak_yai': 3,
+      'mrt_bang_rak_yai>mrt_bang_rak_noi_tha_it': 4.5,
+      'mrt_sai_ma>mrt_phra_nang_klao_bridge': 2,
+      'mrt_bang_krasor>mrt_nonthaburi_civic_center': 2,
+      'mrt_ministry_of_public_health>mrt_yaek_tiwanon': 2,
+      'mrt_yaek_tiwanon>mrt_wong_sawang': 3,
+      'mrt_bang_son>mrt_tao_poon_purple': 3.5,
+    },
+  },
+  {
+    id: 'mrt_yellow',
+    name: 'MRT Yellow',
+    color: '#F7C600',
+    agency: 'ebm',
+    routeType: 12,
+    directions: [
+      {
+        id: 'lat_phrao',
+        label: 'Lat Phrao',
+        patterns: [
+          [
+            'mrt_samrong_yellow',
+            'mrt_thipphawan',
+            'mrt_si_thepha',
+            'mrt_si_dan',
+            'mrt_si_bearing',
+            'mrt_si_la_salle',
+            'mrt_si_iam',
+            'mrt_si_udom',
+            'mrt_suan_luang_rama_ix',
+            'mrt_srinagarindra_38',
+            'mrt_si_nut',
+            'mrt_kalantan',
+            'mrt_hua_mak',
+            'mrt_si_kritha',
+            'mrt_yaek_lam_sali',
+            'mrt_bang_kapi',
+            'mrt_lat_phrao_101',
+            'mrt_mahat_thai',
+            'mrt_lat_phrao_83',
+            'mrt_lat_phrao_71',
+            'mrt_chok_chai_4',
+            'mrt_phawana',
+            'mrt_lat_phrao_yellow',
+          ],
+        ],
+      },
+      {
+        id: 'samrong',
+        label: 'Samrong',
+        patterns: [
+          [
+            'mrt_lat_phrao_yellow',
+            'mrt_phawana',
+            'mrt_chok_chai_4',
+            'mrt_lat_phrao_71',
+            'mrt_lat_phrao_83',
+            'mrt_mahat_thai',
+            'mrt_lat_phrao_101',
+            'mrt_bang_kapi',
+            'mrt_yaek_lam_sali',
+            'mrt_si_kritha',
+            'mrt_hua_mak',
+            'mrt_kalantan',
+            'mrt_si_nut',
+            'mrt_srinagarindra_38',
+            'mrt_suan_luang_rama_ix',
+            'mrt_si_udom',
+            'mrt_si_iam',
+            'mrt_si_la_salle',
+            'mrt_si_bearing',
+            'mrt_si_dan',
+            'mrt_si_thepha',
+            'mrt_thipphawan',
+            'mrt_samrong_yellow',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 2.5,
+    runTimes: {
+      'mrt_samrong_yellow>mrt_thipphawan': 4,
+      'mrt_thipphawan>mrt_si_thepha': 3.5,
+      'mrt_si_thepha>mrt_si_dan': 3,
+      'mrt_si_dan>mrt_si_bearing': 3.5,
+      'mrt_si_iam>mrt_si_udom': 3,
+      'mrt_si_udom>mrt_suan_luang_rama_ix': 3,
+      'mrt_si_kritha>mrt_yaek_lam_sali': 3.5,
+      'mrt_bang_kapi>mrt_lat_phrao_101': 5,
+      'mrt_lat_phrao_101>mrt_mahat_thai': 2,
+      'mrt_mahat_thai>mrt_lat_phrao_83': 2,
+      'mrt_lat_phrao_83>mrt_lat_phrao_71': 2,
+      'mrt_lat_phrao_71>mrt_lat_phrao_83': 2,
+      'mrt_lat_phrao_83>mrt_mahat_thai': 2,
+      'mrt_mahat_thai>mrt_lat_phrao_101': 2,
+      'mrt_lat_phrao_101>mrt_bang_kapi': 5,
+      'mrt_yaek_lam_sali>mrt_si_kritha': 3.5,
+      'mrt_suan_luang_rama_ix>mrt_si_udom': 3,
+      'mrt_si_udom>mrt_si_iam': 3,
+      'mrt_si_bearing>mrt_si_dan': 3.5,
+      'mrt_si_dan>mrt_si_thepha': 3,
+      'mrt_si_thepha>mrt_thipphawan': 3.5,
+      'mrt_thipphawan>mrt_samrong_yellow': 4,
+    },
+  },
+  {
+    id: 'mrt_pink',
+    name: 'MRT Pink',
+    color: '#E56AA6',
+    agency: 'nbm',
+    routeType: 12,
+    directions: [
+      {
+        id: 'nonthaburi_civic_center',
+        label: 'Nonthaburi Civic Center',
+        patterns: [
+          [
+            'mrt_min_buri',
+            'mrt_min_buri_market',
+            'mrt_setthabutbamphen',
+            'mrt_bang_chan',
+            'mrt_nopparat',
+            'mrt_outer_ring_road_ram_inthra',
+            'mrt_ram_inthra_kor_mor_9',
+            'mrt_khu_bon',
+            'mrt_ram_inthra_kor_mor_6',
+            'mrt_vacharaphol',
+            'mrt_maiyalap',
+            'mrt_ram_inthra_kor_mor_4',
+            'mrt_lat_pla_khao',
+            'mrt_ram_inthra_3',
+            'mrt_wat_phra_sri_mahathat',
+            'mrt_rajabhat_phranakhon',
+            'mrt_lak_si',
+            'mrt_national_telecom',
+            'mrt_government_complex',
+            'mrt_chaeng_watthana_14',
+            'mrt_muang_thong_thani',
+            'mrt_si_rat',
+            'mrt_chaeng_watthana_pak_kret_28',
+            'mrt_pak_kret_bypass',
+            'mrt_yaek_pak_kret',
+            'mrt_royal_irrigation_department',
+            'mrt_samakkhi',
+            'mrt_sanambin_nam',
+            'mrt_khae_rai',
+            'mrt_nonthaburi_civic_center_pink',
+          ],
+          ['mrt_lake_muang_thong_thani', 'mrt_impact_muang_thong_thani', 'mrt_muang_thong_thani'],
+        ],
+      },
+      {
+        id: 'min_buri',
+        label: 'Min Buri',
+        patterns: [
+          [
+            'mrt_nonthaburi_civic_center_pink',
+            'mrt_khae_rai',
+            'mrt_sanambin_nam',
+            'mrt_samakkhi',
+            'mrt_royal_irrigation_department',
+            'mrt_yaek_pak_kret',
+            'mrt_pak_kret_bypass',
+            'mrt_chaeng_watthana_pak_kret_28',
+            'mrt_si_rat',
+            'mrt_muang_thong_thani',
+            'mrt_chaeng_watthana_14',
+            'mrt_government_complex',
+            'mrt_national_telecom',
+            'mrt_lak_si',
+            'mrt_rajabhat_phranakhon',
+            'mrt_wat_phra_sri_mahathat',
+            'mrt_ram_inthra_3',
+            'mrt_lat_pla_khao',
+            'mrt_ram_inthra_kor_mor_4',
+            'mrt_maiyalap',
+            'mrt_vacharaphol',
+            'mrt_ram_inthra_kor_mor_6',
+            'mrt_khu_bon',
+            'mrt_ram_inthra_kor_mor_9',
+            'mrt_outer_ring_road_ram_inthra',
+            'mrt_nopparat',
+            'mrt_bang_chan',
+            'mrt_setthabutbamphen',
+            'mrt_min_buri_market',
+            'mrt_min_buri',
+          ],
+          ['mrt_muang_thong_thani', 'mrt_impact_muang_thong_thani', 'mrt_lake_muang_thong_thani'],
+        ],
+      },
+    ],
+    runMinutes: 2.5,
+    runTimes: {
+      'mrt_min_buri>mrt_min_buri_market': 1.5,
+      'mrt_min_buri_market>mrt_setthabutbamphen': 3,
+      'mrt_setthabutbamphen>mrt_bang_chan': 3,
+      'mrt_nopparat>mrt_outer_ring_road_ram_inthra': 2,
+      'mrt_vacharaphol>mrt_maiyalap': 2,
+      'mrt_lat_pla_khao>mrt_ram_inthra_3': 2,
+      'mrt_lak_si>mrt_national_telecom': 2,
+      'mrt_national_telecom>mrt_government_complex': 2,
+      'mrt_government_complex>mrt_chaeng_watthana_14': 3.5,
+      'mrt_chaeng_watthana_14>mrt_muang_thong_thani': 2,
+      'mrt_muang_thong_thani>mrt_si_rat': 2,
+      'mrt_si_rat>mrt_chaeng_watthana_pak_kret_28': 2,
+      'mrt_khae_rai>mrt_nonthaburi_civic_center_pink': 1.5,
+      'mrt_impact_muang_thong_thani>mrt_muang_thong_thani': 3,
+      'mrt_nonthaburi_civic_center_pink>mrt_khae_rai': 1.5,
+      'mrt_chaeng_watthana_pak_kret_28>mrt_si_rat': 2,
+      'mrt_si_rat>mrt_muang_thong_thani': 2,
+      'mrt_muang_thong_thani>mrt_chaeng_watthana_14': 2,
+      'mrt_chaeng_watthana_14>mrt_government_complex': 3.5,
+      'mrt_government_complex>mrt_national_telecom': 2,
+      'mrt_national_telecom>mrt_lak_si': 2,
+      'mrt_ram_inthra_3>mrt_lat_pla_khao': 2,
+      'mrt_maiyalap>mrt_vacharaphol': 2,
+      'mrt_outer_ring_road_ram_inthra>mrt_nopparat': 2,
+      'mrt_bang_chan>mrt_setthabutbamphen': 3,
+      'mrt_setthabutbamphen>mrt_min_buri_market': 3,
+      'mrt_min_buri_market>mrt_min_buri': 1.5,
+      'mrt_muang_thong_thani>mrt_impact_muang_thong_thani': 3,
+    },
+  },
+  {
+    id: 'srt_dark_red',
+    name: 'SRT Dark Red',
+    color: '#C62828',
+    agency: 'srtet',
+    routeType: 2,
+    directions: [
+      {
+        id: 'krung_thep_aphiwat',
+        label: 'Krung Thep Aphiwat',
+        patterns: [
+          [
+            'srt_rangsit',
+            'srt_lak_hok',
+            'srt_don_mueang',
+            'srt_kan_kheha',
+            'srt_lak_si',
+            'srt_thung_song_hong',
+            'srt_bang_khen',
+            'srt_wat_samian_nari',
+            'srt_chatuchak',
+            'srt_krung_thep_aphiwat',
+          ],
+        ],
+      },
+      {
+        id: 'rangsit',
+        label: 'Rangsit',
+        patterns: [
+          [
+            'srt_krung_thep_aphiwat',
+            'srt_chatuchak',
+            'srt_wat_samian_nari',
+            'srt_bang_khen',
+            'srt_thung_song_hong',
+            'srt_lak_si',
+            'srt_kan_kheha',
+            'srt_don_mueang',
+            'srt_lak_hok',
+            'srt_rangsit',
+          ],
+        ],
+      },
+    ],
+    runMinutes: 2.5,
+    runTimes: {
+      'srt_lak_hok>srt_don_mueang': 4,
+      'srt_don_mueang>srt_kan_kheha': 3,
+      'srt_lak_si>srt_thung_song_hong': 3.5,
+      'srt_thung_song_hong>srt_bang_khen': 3,
+      'srt_bang_khen>srt_wat_samian_nari': 2,
+      'srt_wat_samian_nari>srt_chatuchak': 2,
+      'srt_chatuchak>srt_wat_samian_nari': 2,
+      'srt_wat_samian_nari>srt_bang_khen': 2,
+      'srt_bang_khen>srt_thung_song_hong': 3,
+      'srt_thung_song_hong>srt_lak_si': 3.5,
+      'srt_kan_kheha>srt_don_mueang': 3,
+      'srt_don_mueang>srt_lak_hok': 4,
+    },
+  },
+  {
+    id: 'srt_light_red',
+    name: 'SRT Light Red',
+    color: '#E57373',
+    agency: 'srtet',
+    routeType: 2,
+    directions: [
+      {
+        id: 'krung_thep_aphiwat',
+        label: 'Krung Thep Aphiwat',
+        patterns: [['srt_taling_chan', 'srt_bang_bamru', 'srt_bang_son', 'srt_krung_thep_aphiwat_light_red']],
+      },
+      {
+        id: 'taling_chan',
+        label: 'Taling Chan',
+        patterns: [['srt_krung_thep_aphiwat_light_red', 'srt_bang_son', 'srt_bang_bamru', 'srt_taling_chan']],
+      },
+    ],
+    runMinutes: 4,
+    runTimes: {
+      'srt_bang_bamru>srt_bang_son': 6.5,
+      'srt_bang_son>srt_krung_thep_aphiwat_light_red': 2.5,
+      'srt_krung_thep_aphiwat_light_red>srt_bang_son': 2.5,
+      'srt_bang_son>srt_bang_bamru': 6.5,
+    },
+  },
+  {
+    id: 'bts_gold',
+    name: 'BTS Gold',
+    color: '#C6A84B',
+    agency: 'btsc',
+    routeType: 12,
+    directions: [
+      {
+        id: 'krung_thon_buri',
+        label: 'Krung Thon Buri',
+        patterns: [['bts_khlong_san', 'bts_charoen_nakhon', 'bts_krung_thon_buri_gold']],
+      },
+      {
+        id: 'khlong_san',
+        label: 'Khlong San',
+        patterns: [['bts_krung_thon_buri_gold', 'bts_charoen_nakhon', 'bts_khlong_san']],
+      },
+    ],
+    runMinutes: 2.3,
+  },
+]
+
+export const generatedInterchanges: Interchange[] = [
+  { stations: ['bts_asok', 'mrt_sukhumvit'], walkMinutes: 5 },
+  { stations: ['bts_sala_daeng', 'mrt_silom'], walkMinutes: 5 },
+  { stations: ['bts_mo_chit', 'mrt_chatuchak_park'], walkMinutes: 5 },
+  { stations: ['bts_ha_yaek_lat_phrao', 'mrt_phahon_yothin'], walkMinutes: 5 },
+  { stations: ['arl_makkasan', 'mrt_phetchaburi'], walkMinutes: 5 },
+  { stations: ['bts_bang_wa_silom', 'mrt_bang_wa'], walkMinutes: 4 },
+  { stations: ['arl_phaya_thai', 'bts_phaya_thai'], walkMinutes: 4 },
+  { stations: ['bts_siam', 'bts_siam_silom'], walkMinutes: 1 },
+  { stations: ['mrt_tao_poon', 'mrt_tao_poon_purple'], walkMinutes: 2 },
+  { stations: ['mrt_nonthaburi_civic_center', 'mrt_nonthaburi_civic_center_pink'], walkMinutes: 5 },
+  { stations: ['mrt_lat_phrao', 'mrt_lat_phrao_yellow'], walkMinutes: 5 },
+  { stations: ['arl_hua_mak', 'mrt_hua_mak'], walkMinutes: 5 },
+  { stations: ['bts_samrong', 'mrt_samrong_yellow'], walkMinutes: 5 },
+  { stations: ['bts_wat_phra_sri_mahathat', 'mrt_wat_phra_sri_mahathat'], walkMinutes: 5 },
+  { stations: ['mrt_lak_si', 'srt_lak_si'], walkMinutes: 5 },
+  { stations: ['mrt_bang_sue', 'srt_krung_thep_aphiwat'], walkMinutes: 5 },
+  { stations: ['srt_krung_thep_aphiwat', 'srt_krung_thep_aphiwat_light_red'], walkMinutes: 3 },
+  { stations: ['mrt_bang_son', 'srt_bang_son'], walkMinutes: 5 },
+  { stations: ['bts_krung_thon_buri', 'bts_krung_thon_buri_gold'], walkMinutes: 3 },
+]
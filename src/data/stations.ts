@@ -1,124 +1,8 @@
 import type { Station } from '../types'
+import { generatedStations } from './network.generated'
 
-// All coordinates verified from OpenStreetMap Overpass API (Feb 2025)
-export const stations: Station[] = [
-  // === MRT Blue Line ===
-  // Ordered: Tha Phra → Charan 13 → (loop clockwise) → Itsaraphap → Bang Wa → Lak Song
-  { id: 'mrt_tha_phra', name: 'Tha Phra', line: 'mrt_blue', lat: 13.7296, lng: 100.4740 },
-  { id: 'mrt_charan_13', name: 'Charan 13', line: 'mrt_blue', lat: 13.7402, lng: 100.4707 },
-  { id: 'mrt_fai_chai', name: 'Fai Chai', line: 'mrt_blue', lat: 13.7558, lng: 100.4693 },
-  { id: 'mrt_bang_khun_non', name: 'Bang Khun Non', line: 'mrt_blue', lat: 13.7633, lng: 100.4733 },
-  { id: 'mrt_bang_yi_khan', name: 'Bang Yi Khan', line: 'mrt_blue', lat: 13.7774, lng: 100.4853 },
-  { id: 'mrt_sirindhorn', name: 'Sirindhorn', line: 'mrt_blue', lat: 13.7839, lng: 100.4933 },
-  { id: 'mrt_bang_phlat', name: 'Bang Phlat', line: 'mrt_blue', lat: 13.7924, lng: 100.5049 },
-  { id: 'mrt_bang_o', name: 'Bang O', line: 'mrt_blue', lat: 13.7990, lng: 100.5098 },
-  { id: 'mrt_bang_pho', name: 'Bang Pho', line: 'mrt_blue', lat: 13.8064, lng: 100.5210 },
-  { id: 'mrt_tao_poon', name: 'Tao Poon', line: 'mrt_blue', lat: 13.8062, lng: 100.5308 },
-  { id: 'mrt_bang_sue', name: 'Bang Sue', line: 'mrt_blue', lat: 13.8024, lng: 100.5410 },
-  { id: 'mrt_kamphaeng_phet', name: 'Kamphaeng Phet', line: 'mrt_blue', lat: 13.7979, lng: 100.5479 },
-  { id: 'mrt_chatuchak_park', name: 'Chatuchak Park', line: 'mrt_blue', lat: 13.8030, lng: 100.5533 },
-  { id: 'mrt_phahon_yothin', name: 'Phahon Yothin', line: 'mrt_blue', lat: 13.8129, lng: 100.5615 },
-  { id: 'mrt_lat_phrao', name: 'Lat Phrao', line: 'mrt_blue', lat: 13.8065, lng: 100.5729 },
-  { id: 'mrt_ratchadaphisek', name: 'Ratchadaphisek', line: 'mrt_blue', lat: 13.7990, lng: 100.5746 },
-  { id: 'mrt_sutthisan', name: 'Sutthisan', line: 'mrt_blue', lat: 13.7895, lng: 100.5741 },
-  { id: 'mrt_huai_khwang', name: 'Huai Khwang', line: 'mrt_blue', lat: 13.7787, lng: 100.5736 },
-  { id: 'mrt_thailand_cultural_centre', name: 'Thailand Cultural Centre', line: 'mrt_blue', lat: 13.7663, lng: 100.5701 },
-  { id: 'mrt_phra_ram_9', name: 'Phra Ram 9', line: 'mrt_blue', lat: 13.7578, lng: 100.5653 },
-  { id: 'mrt_phetchaburi', name: 'Phetchaburi', line: 'mrt_blue', lat: 13.7492, lng: 100.5634 },
-  { id: 'mrt_sukhumvit', name: 'Sukhumvit', line: 'mrt_blue', lat: 13.7374, lng: 100.5613 },
-  { id: 'mrt_queen_sirikit', name: 'Queen Sirikit National Convention Centre', line: 'mrt_blue', lat: 13.7227, lng: 100.5599 },
-  { id: 'mrt_khlong_toei', name: 'Khlong Toei', line: 'mrt_blue', lat: 13.7221, lng: 100.5544 },
-  { id: 'mrt_lumphini', name: 'Lumphini', line: 'mrt_blue', lat: 13.7256, lng: 100.5457 },
-  { id: 'mrt_silom', name: 'Silom', line: 'mrt_blue', lat: 13.7292, lng: 100.5371 },
-  { id: 'mrt_sam_yan', name: 'Sam Yan', line: 'mrt_blue', lat: 13.7321, lng: 100.5301 },
-  { id: 'mrt_hua_lamphong', name: 'Hua Lamphong', line: 'mrt_blue', lat: 13.7376, lng: 100.5171 },
-  { id: 'mrt_wat_mangkon', name: 'Wat Mangkon', line: 'mrt_blue', lat: 13.7422, lng: 100.5099 },
-  { id: 'mrt_sam_yot', name: 'Sam Yot', line: 'mrt_blue', lat: 13.7470, lng: 100.5023 },
-  { id: 'mrt_sanam_chai', name: 'Sanam Chai', line: 'mrt_blue', lat: 13.7443, lng: 100.4946 },
-  { id: 'mrt_itsaraphap', name: 'Itsaraphap', line: 'mrt_blue', lat: 13.7384, lng: 100.4857 },
-  // Southern tail: Tha Phra → Lak Song
-  { id: 'mrt_bang_phai', name: 'Bang Phai', line: 'mrt_blue', lat: 13.7246, lng: 100.4651 },
-  { id: 'mrt_bang_wa', name: 'Bang Wa', line: 'mrt_blue', lat: 13.7208, lng: 100.4578 },
-  { id: 'mrt_phetkasem_48', name: 'Phetkasem 48', line: 'mrt_blue', lat: 13.7156, lng: 100.4455 },
-  { id: 'mrt_phasi_charoen', name: 'Phasi Charoen', line: 'mrt_blue', lat: 13.7129, lng: 100.4343 },
-  { id: 'mrt_bang_khae', name: 'Bang Khae', line: 'mrt_blue', lat: 13.7119, lng: 100.4223 },
-  { id: 'mrt_lak_song', name: 'Lak Song', line: 'mrt_blue', lat: 13.7109, lng: 100.4095 },
-
-  // === BTS Sukhumvit Line ===
-  // Northern extension (N24 → N8)
-  { id: 'bts_khu_khot', name: 'Khu Khot', line: 'bts_sukhumvit', lat: 13.9324, lng: 100.6465 },
-  { id: 'bts_yaek_kor_por_or', name: 'Yaek Kor Por Or', line: 'bts_sukhumvit', lat: 13.9250, lng: 100.6258 },
-  { id: 'bts_royal_thai_air_force_museum', name: 'Royal Thai Air Force Museum', line: 'bts_sukhumvit', lat: 13.9180, lng: 100.6217 },
-  { id: 'bts_bhumibol_hospital', name: 'Bhumibol Adulyadej Hospital', line: 'bts_sukhumvit', lat: 13.9107, lng: 100.6174 },
-  { id: 'bts_saphan_mai', name: 'Saphan Mai', line: 'bts_sukhumvit', lat: 13.8966, lng: 100.6091 },
-  { id: 'bts_sai_yud', name: 'Sai Yud', line: 'bts_sukhumvit', lat: 13.8885, lng: 100.6043 },
-  { id: 'bts_phahon_yothin_59', name: 'Phahon Yothin 59', line: 'bts_sukhumvit', lat: 13.8824, lng: 100.6007 },
-  { id: 'bts_wat_phra_sri_mahathat', name: 'Wat Phra Sri Mahathat', line: 'bts_sukhumvit', lat: 13.8753, lng: 100.5967 },
-  { id: 'bts_11th_infantry', name: '11th Infantry Regiment', line: 'bts_sukhumvit', lat: 13.8676, lng: 100.5920 },
-  { id: 'bts_bang_bua', name: 'Bang Bua', line: 'bts_sukhumvit', lat: 13.8560, lng: 100.5852 },
-  { id: 'bts_royal_forest_dept', name: 'Royal Forest Department', line: 'bts_sukhumvit', lat: 13.8503, lng: 100.5818 },
-  { id: 'bts_kasetsart', name: 'Kasetsart University', line: 'bts_sukhumvit', lat: 13.8423, lng: 100.5771 },
-  { id: 'bts_sena_nikhom', name: 'Sena Nikhom', line: 'bts_sukhumvit', lat: 13.8364, lng: 100.5736 },
-  { id: 'bts_ratchayothin', name: 'Ratchayothin', line: 'bts_sukhumvit', lat: 13.8297, lng: 100.5697 },
-  { id: 'bts_phahon_yothin_24', name: 'Phahon Yothin 24', line: 'bts_sukhumvit', lat: 13.8241, lng: 100.5664 },
-  { id: 'bts_ha_yaek_lat_phrao', name: 'Ha Yaek Lat Phrao', line: 'bts_sukhumvit', lat: 13.8167, lng: 100.5620 },
-  // Original section (N8 → CEN → E14)
-  { id: 'bts_mo_chit', name: 'Mo Chit', line: 'bts_sukhumvit', lat: 13.8026, lng: 100.5538 },
-  { id: 'bts_saphan_khwai', name: 'Saphan Khwai', line: 'bts_sukhumvit', lat: 13.7938, lng: 100.5497 },
-  { id: 'bts_ari', name: 'Ari', line: 'bts_sukhumvit', lat: 13.7797, lng: 100.5446 },
-  { id: 'bts_sanam_pao', name: 'Sanam Pao', line: 'bts_sukhumvit', lat: 13.7726, lng: 100.5421 },
-  { id: 'bts_victory_monument', name: 'Victory Monument', line: 'bts_sukhumvit', lat: 13.7628, lng: 100.5371 },
-  { id: 'bts_phaya_thai', name: 'Phaya Thai', line: 'bts_sukhumvit', lat: 13.7570, lng: 100.5338 },
-  { id: 'bts_ratchathewi', name: 'Ratchathewi', line: 'bts_sukhumvit', lat: 13.7519, lng: 100.5316 },
-  { id: 'bts_siam', name: 'Siam', line: 'bts_sukhumvit', lat: 13.7456, lng: 100.5342 },
-  { id: 'bts_chit_lom', name: 'Chit Lom', line: 'bts_sukhumvit', lat: 13.7441, lng: 100.5431 },
-  { id: 'bts_ploen_chit', name: 'Ploen Chit', line: 'bts_sukhumvit', lat: 13.7431, lng: 100.5490 },
-  { id: 'bts_nana', name: 'Nana', line: 'bts_sukhumvit', lat: 13.7405, lng: 100.5554 },
-  { id: 'bts_asok', name: 'Asok', line: 'bts_sukhumvit', lat: 13.7370, lng: 100.5604 },
-  { id: 'bts_phrom_phong', name: 'Phrom Phong', line: 'bts_sukhumvit', lat: 13.7304, lng: 100.5697 },
-  { id: 'bts_thong_lo', name: 'Thong Lo', line: 'bts_sukhumvit', lat: 13.7242, lng: 100.5785 },
-  { id: 'bts_ekkamai', name: 'Ekkamai', line: 'bts_sukhumvit', lat: 13.7195, lng: 100.5851 },
-  { id: 'bts_phra_khanong', name: 'Phra Khanong', line: 'bts_sukhumvit', lat: 13.7152, lng: 100.5912 },
-  { id: 'bts_on_nut', name: 'On Nut', line: 'bts_sukhumvit', lat: 13.7056, lng: 100.6010 },
-  { id: 'bts_bang_chak', name: 'Bang Chak', line: 'bts_sukhumvit', lat: 13.6968, lng: 100.6053 },
-  { id: 'bts_punnawithi', name: 'Punnawithi', line: 'bts_sukhumvit', lat: 13.6893, lng: 100.6090 },
-  { id: 'bts_udom_suk', name: 'Udom Suk', line: 'bts_sukhumvit', lat: 13.6799, lng: 100.6095 },
-  { id: 'bts_bang_na', name: 'Bang Na', line: 'bts_sukhumvit', lat: 13.6681, lng: 100.6047 },
-  { id: 'bts_bearing', name: 'Bearing', line: 'bts_sukhumvit', lat: 13.6612, lng: 100.6018 },
-  // Southern extension (E15 → E23)
-  { id: 'bts_samrong', name: 'Samrong', line: 'bts_sukhumvit', lat: 13.6465, lng: 100.5958 },
-  { id: 'bts_pu_chao', name: 'Pu Chao', line: 'bts_sukhumvit', lat: 13.6373, lng: 100.5920 },
-  { id: 'bts_chang_erawan', name: 'Chang Erawan', line: 'bts_sukhumvit', lat: 13.6216, lng: 100.5902 },
-  { id: 'bts_royal_thai_naval_academy', name: 'Royal Thai Naval Academy', line: 'bts_sukhumvit', lat: 13.6084, lng: 100.5949 },
-  { id: 'bts_pak_nam', name: 'Pak Nam', line: 'bts_sukhumvit', lat: 13.6021, lng: 100.5971 },
-  { id: 'bts_srinagarindra', name: 'Srinagarindra', line: 'bts_sukhumvit', lat: 13.5920, lng: 100.6090 },
-  { id: 'bts_phraek_sa', name: 'Phraek Sa', line: 'bts_sukhumvit', lat: 13.5842, lng: 100.6079 },
-  { id: 'bts_sai_luat', name: 'Sai Luat', line: 'bts_sukhumvit', lat: 13.5778, lng: 100.6055 },
-  { id: 'bts_kheha', name: 'Kheha', line: 'bts_sukhumvit', lat: 13.5677, lng: 100.6077 },
-
-  // === BTS Silom Line ===
-  { id: 'bts_national_stadium', name: 'National Stadium', line: 'bts_silom', lat: 13.7465, lng: 100.5291 },
-  { id: 'bts_siam_silom', name: 'Siam', line: 'bts_silom', lat: 13.7456, lng: 100.5342 },
-  { id: 'bts_ratchadamri', name: 'Ratchadamri', line: 'bts_silom', lat: 13.7395, lng: 100.5394 },
-  { id: 'bts_sala_daeng', name: 'Sala Daeng', line: 'bts_silom', lat: 13.7286, lng: 100.5343 },
-  { id: 'bts_chong_nonsi', name: 'Chong Nonsi', line: 'bts_silom', lat: 13.7238, lng: 100.5293 },
-  { id: 'bts_saint_louis', name: 'Saint Louis', line: 'bts_silom', lat: 13.7208, lng: 100.5267 },
-  { id: 'bts_surasak', name: 'Surasak', line: 'bts_silom', lat: 13.7193, lng: 100.5215 },
-  { id: 'bts_saphan_taksin', name: 'Saphan Taksin', line: 'bts_silom', lat: 13.7188, lng: 100.5142 },
-  { id: 'bts_krung_thon_buri', name: 'Krung Thon Buri', line: 'bts_silom', lat: 13.7209, lng: 100.5027 },
-  { id: 'bts_wongwian_yai', name: 'Wongwian Yai', line: 'bts_silom', lat: 13.7211, lng: 100.4952 },
-  { id: 'bts_pho_nimit', name: 'Pho Nimit', line: 'bts_silom', lat: 13.7192, lng: 100.4860 },
-  { id: 'bts_talat_phlu', name: 'Talat Phlu', line: 'bts_silom', lat: 13.7142, lng: 100.4767 },
-  { id: 'bts_wutthakat', name: 'Wutthakat', line: 'bts_silom', lat: 13.7130, lng: 100.4689 },
-  { id: 'bts_bang_wa_silom', name: 'Bang Wa', line: 'bts_silom', lat: 13.7208, lng: 100.4578 },
-
-  // === Airport Rail Link ===
-  { id: 'arl_phaya_thai', name: 'Phaya Thai', line: 'arl', lat: 13.7567, lng: 100.5349 },
-  { id: 'arl_ratchaprarop', name: 'Ratchaprarop', line: 'arl', lat: 13.7551, lng: 100.5421 },
-  { id: 'arl_makkasan', name: 'Makkasan', line: 'arl', lat: 13.7509, lng: 100.5611 },
-  { id: 'arl_ramkhamhaeng', name: 'Ramkhamhaeng', line: 'arl', lat: 13.7430, lng: 100.6002 },
-  { id: 'arl_hua_mak', name: 'Hua Mak', line: 'arl', lat: 13.7380, lng: 100.6453 },
-  { id: 'arl_ban_thap_chang', name: 'Ban Thap Chang', line: 'arl', lat: 13.7329, lng: 100.6908 },
-  { id: 'arl_lat_krabang', name: 'Lat Krabang', line: 'arl', lat: 13.7277, lng: 100.7486 },
-  { id: 'arl_suvarnabhumi', name: 'Suvarnabhumi', line: 'arl', lat: 13.6943, lng: 100.7513 },
-]
+// Built from data/gtfs by `pnpm import-gtfs`; stations are grouped by line,
+// each in the order direction 1 first calls at them. Coordinates for MRT
+// Blue, BTS Sukhumvit, BTS Silom and ARL were verified from OpenStreetMap
+// (Feb 2025); those for the other lines are approximate.
+export const stations: Station[] = generatedStations
@@ -0,0 +1,53 @@
+import type { Station } from '../types'
+import type { Detection } from './engine'
+
+// Doors chime on opening and again on closing; anything this soon after an
+// arrival (or the start of the ride) is the same stop
+const MIN_ARRIVAL_GAP_MS = 60_000
+// An announcement only names the station the next chime is for if it was this recent
+const MATCH_WINDOW_MS = 3 * 60_000
+
+export interface InferredArrival {
+  station: Station
+  timeMs: number
+  basis: 'speech' | 'expected' // announced, or simply the next stop on the route
+}
+
+export interface ArrivalTracker {
+  /** Feeds any detection; returns an arrival when a chime completes one. */
+  process(detection: Detection): InferredArrival | null
+  /** Where the ride has got to: the last station arrived at. */
+  current(): Station
+}
+
+/**
+ * Turns detector output into arrivals along a ride, `route[0]` being where
+ * the rider boarded. A door chime is an arrival: at the station most
+ * recently announced ahead of the train, or otherwise at the next stop.
+ * Announcements for stations already passed are ignored, and nothing is
+ * reported past the end of the route.
+ */
+export function createArrivalTracker(route: Station[], startMs: number): ArrivalTracker {
+  let position = 0
+  let lastArrivalMs = startMs
+  let announced: { index: number; timeMs: number } | null = null
+
+  return {
+    process(detection) {
+      if (detection.source === 'speech') {
+        const index = route.findIndex((s, i) => i > position && s.id === detection.station)
+        if (index !== -1) announced = { index, timeMs: detection.timeMs }
+        return null
+      }
+
+      if (position >= route.length - 1 || detection.timeMs - lastArrivalMs < MIN_ARRIVAL_GAP_MS) return null
+
+      const heard = announced && detection.timeMs - announced.timeMs <= MATCH_WINDOW_MS ? announced : null
+      position = heard ? heard.index : position + 1
+      lastArrivalMs = detection.timeMs
+      announced = null
+      return { station: route[position], timeMs: detection.timeMs, basis: heard ? 'speech' : 'expected' }
+    },
+    current: () => route[position],
+  }
+}
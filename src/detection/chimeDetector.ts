@@ -0,0 +1,260 @@
+import type { Detection, DetectorEngine } from './engine'
+import type { ChimeNote, ChimeTemplate, HeardNote } from './chimeTemplates'
+
+// MRT/BTS door chimes are a short run of pure tones in the 800-2500 Hz range.
+// We follow the loudest pitch in that band, against a noise floor that
+// tracks the carriage, and compare the notes heard with the line's chime.
+export const CHIME_LOW_HZ = 800
+export const CHIME_HIGH_HZ = 2500
+export const CHIME_MARGIN_DB = 12 // rise over the noise floor — tune with `pnpm replay-detector`
+export const CHIME_MIN_DURATION_MS = 500 // without a template, tone must total at least this long
+export const CHIME_MIN_CONFIDENCE = 0.5
+
+// Matches the AnalyserNode the live detector used to read, so levels carry over
+export const CHIME_FFT_SIZE = 2048
+const SMOOTHING = 0.3
+const SILENCE_DB = -100
+
+// The floor drops quickly into quiet and climbs slowly, so a chime doesn't
+// lift it before it has been heard but a steady hum or tunnel roar does
+const FLOOR_FALL_MS = 200
+const FLOOR_RISE_MS = 5000
+// A chime is one peak standing well clear of the rest of the band; broadband
+// noise (brakes, doors, wind) is loud everywhere at once
+const PEAKINESS_DB = 15
+const NOTE_TOLERANCE_SEMITONES = 0.5
+const MIN_NOTE_MS = 60
+const PHRASE_GAP_MS = 600
+// Heard pitches within this much of the template still score something
+const PITCH_SLACK_SEMITONES = 1.5
+const PITCH_WEIGHT = 0.7
+
+export interface ChimeDetectorOptions {
+  sampleRate: number
+  lowHz?: number
+  highHz?: number
+  template?: ChimeTemplate | null // null accepts any sustained tone
+  marginDb?: number // overrides the template's
+  minDurationMs?: number
+  minConfidence?: number
+}
+
+export interface ChimeReading {
+  peakDb: number // loudest bin in the band, dBFS
+  floorDb: number
+  pitchHz: number | null // null unless the frame is a tone
+}
+
+export interface ChimeDetector extends DetectorEngine<Float32Array> {
+  /** Levels from the last frame processed. */
+  reading(): ChimeReading
+  /** The notes of the last complete run of tones, whether or not it was reported. */
+  lastPhrase(): HeardNote[]
+}
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const r = re[i]
+      re[i] = re[j]
+      re[j] = r
+      const m = im[i]
+      im[i] = im[j]
+      im[j] = m
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k)
+        const wi = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tr = re[b] * wr - im[b] * wi
+        const ti = re[b] * wi + im[b] * wr
+        re[b] = re[a] - tr
+        im[b] = im[a] - ti
+        re[a] += tr
+        im[a] += ti
+      }
+    }
+  }
+}
+
+function blackman(n: number): Float64Array {
+  return Float64Array.from({ length: n }, (_, i) =>
+    0.42 - 0.5 * Math.cos((2 * Math.PI * i) / n) + 0.08 * Math.cos((4 * Math.PI * i) / n),
+  )
+}
+
+function semitones(a: number, b: number): number {
+  return 12 * Math.log2(a / b)
+}
+
+function noteScore(heard: HeardNote, expected: ChimeNote): number {
+  const pitch = Math.max(0, 1 - Math.abs(semitones(heard.hz, expected.hz)) / PITCH_SLACK_SEMITONES)
+  const duration = Math.min(heard.ms, expected.ms) / Math.max(heard.ms, expected.ms)
+  return PITCH_WEIGHT * pitch + (1 - PITCH_WEIGHT) * duration
+}
+
+// How well the phrase fits the template, 0-1: the best alignment of the
+// shorter along the longer, scaled down for template notes that went unheard
+function templateScore(phrase: HeardNote[], template: ChimeTemplate): number {
+  const expected = template.notes
+  const span = Math.min(phrase.length, expected.length)
+  let best = 0
+  for (let p = 0; p + span <= phrase.length; p++) {
+    for (let e = 0; e + span <= expected.length; e++) {
+      let sum = 0
+      for (let i = 0; i < span; i++) sum += noteScore(phrase[p + i], expected[e + i])
+      best = Math.max(best, sum / span)
+    }
+  }
+  return best * Math.min(1, phrase.length / expected.length)
+}
+
+/**
+ * Detects door chimes in mono PCM. Each call to `process` takes the latest
+ * `CHIME_FFT_SIZE` samples (scaled -1–1); frames may overlap or leave gaps,
+ * since timing comes from `timeMs`. Tonal frames are grouped into notes and
+ * notes into a phrase, which ends after `PHRASE_GAP_MS` without a tone. The
+ * phrase is then scored against the template (or, without one, by how long
+ * it sounded) and weighted by how far it rose above the floor; it is
+ * reported if that confidence reaches `minConfidence`.
+ */
+export function createChimeDetector(options: ChimeDetectorOptions): ChimeDetector {
+  const {
+    sampleRate,
+    lowHz = CHIME_LOW_HZ,
+    highHz = CHIME_HIGH_HZ,
+    template = null,
+    minDurationMs = CHIME_MIN_DURATION_MS,
+    minConfidence = CHIME_MIN_CONFIDENCE,
+  } = options
+  const marginDb = options.marginDb ?? template?.marginDb ?? CHIME_MARGIN_DB
+
+  const taper = blackman(CHIME_FFT_SIZE)
+  const binSize = sampleRate / CHIME_FFT_SIZE
+  const lowBin = Math.max(1, Math.floor(lowHz / binSize))
+  const highBin = Math.min(Math.ceil(highHz / binSize), CHIME_FFT_SIZE / 2 - 2)
+  const re = new Float64Array(CHIME_FFT_SIZE)
+  const im = new Float64Array(CHIME_FFT_SIZE)
+
+  let smoothed = new Float64Array(CHIME_FFT_SIZE / 2)
+  let reading: ChimeReading = { peakDb: SILENCE_DB, floorDb: SILENCE_DB, pitchHz: null }
+  let floorDb: number | null = null
+  let previousMs: number | null = null
+  let note: (HeardNote & { startMs: number; pitches: number }) | null = null
+  let phrase: HeardNote[] = []
+  let lastPhrase: HeardNote[] = []
+  let lastToneMs = 0
+  let count = 0
+
+  const toDb = (magnitude: number) => (magnitude > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(magnitude)) : SILENCE_DB)
+
+  // A note lasts from its first tonal frame to one frame past its last
+  function endNote(frameMs: number) {
+    if (!note) return
+    const ms = lastToneMs - note.startMs + frameMs
+    if (ms >= MIN_NOTE_MS) phrase.push({ hz: Math.round(note.hz), ms: Math.round(ms), prominenceDb: note.prominenceDb })
+    note = null
+  }
+
+  function endPhrase(timeMs: number): Detection | null {
+    lastPhrase = phrase
+    phrase = []
+    if (lastPhrase.length === 0) return null
+
+    const totalMs = lastPhrase.reduce((sum, n) => sum + n.ms, 0)
+    const score = template ? templateScore(lastPhrase, template) : Math.min(1, totalMs / minDurationMs)
+    const prominence = Math.max(...lastPhrase.map((n) => n.prominenceDb))
+    const confidence = score * Math.min(1, prominence / (2 * marginDb))
+    if (confidence < minConfidence) return null
+
+    count++
+    const notes = lastPhrase.map((n) => n.hz).join('/')
+    return {
+      source: 'chime',
+      timeMs,
+      confidence,
+      detail: `Chime #${count} — ${Math.round(confidence * 100)}% (${notes} Hz, +${prominence.toFixed(0)} dB)`,
+    }
+  }
+
+  return {
+    process(frame, timeMs) {
+      re.fill(0)
+      im.fill(0)
+      // Right-align a short frame so the latest samples are always analysed
+      const offset = Math.max(0, CHIME_FFT_SIZE - frame.length)
+      const start = Math.max(0, frame.length - CHIME_FFT_SIZE)
+      for (let i = offset; i < CHIME_FFT_SIZE; i++) re[i] = frame[start + i - offset] * taper[i]
+      fft(re, im)
+
+      let peakBin = lowBin
+      let sum = 0
+      for (let k = lowBin - 1; k <= highBin + 1; k++) {
+        const magnitude = Math.hypot(re[k], im[k]) / CHIME_FFT_SIZE
+        smoothed[k] = SMOOTHING * smoothed[k] + (1 - SMOOTHING) * magnitude
+        if (k < lowBin || k > highBin) continue
+        sum += toDb(smoothed[k])
+        if (smoothed[k] > smoothed[peakBin]) peakBin = k
+      }
+      const peakDb = toDb(smoothed[peakBin])
+      const meanDb = sum / (highBin - lowBin + 1)
+
+      const frameMs = previousMs === null ? 0 : Math.max(0, timeMs - previousMs)
+      previousMs = timeMs
+      floorDb ??= peakDb
+
+      const prominenceDb = peakDb - floorDb
+      const tonal = prominenceDb >= marginDb && peakDb - meanDb >= PEAKINESS_DB
+      let pitchHz: number | null = null
+
+      if (tonal) {
+        // Parabolic interpolation between neighbouring bins
+        const [a, b, c] = [toDb(smoothed[peakBin - 1]), peakDb, toDb(smoothed[peakBin + 1])]
+        const curve = a - 2 * b + c
+        const shift = curve < 0 ? (0.5 * (a - c)) / curve : 0
+        pitchHz = (peakBin + shift) * binSize
+
+        if (note && Math.abs(semitones(pitchHz, note.hz)) > NOTE_TOLERANCE_SEMITONES) endNote(frameMs)
+        if (note) {
+          note.pitches++
+          note.hz += (pitchHz - note.hz) / note.pitches
+          note.prominenceDb = Math.max(note.prominenceDb, prominenceDb)
+        } else {
+          note = { hz: pitchHz, ms: 0, prominenceDb, startMs: timeMs, pitches: 1 }
+        }
+        lastToneMs = timeMs
+      } else {
+        endNote(frameMs)
+      }
+      const tau = peakDb < floorDb ? FLOOR_FALL_MS : FLOOR_RISE_MS
+      floorDb += (peakDb - floorDb) * (1 - Math.exp(-frameMs / tau))
+
+      reading = { peakDb, floorDb, pitchHz }
+      if (!tonal && phrase.length > 0 && timeMs - lastToneMs >= PHRASE_GAP_MS) return endPhrase(timeMs)
+      return null
+    },
+    reset() {
+      smoothed = new Float64Array(CHIME_FFT_SIZE / 2)
+      reading = { peakDb: SILENCE_DB, floorDb: SILENCE_DB, pitchHz: null }
+      floorDb = null
+      previousMs = null
+      note = null
+      phrase = []
+      lastPhrase = []
+      lastToneMs = 0
+      count = 0
+    },
+    reading: () => reading,
+    lastPhrase: () => lastPhrase,
+  }
+}
@@ -0,0 +1,63 @@
+import { median } from '../utils/stats'
+
+export interface ChimeNote {
+  hz: number // pitch
+  ms: number // how long it sounds
+}
+
+/** A note as the detector heard it, with how far it rose above the noise floor. */
+export interface HeardNote extends ChimeNote {
+  prominenceDb: number
+}
+
+/** The tone pattern a line's doors play, and how far above the noise it stands. */
+export interface ChimeTemplate {
+  notes: ChimeNote[]
+  marginDb?: number // minimum rise over the noise floor; see `CHIME_MARGIN_DB`
+}
+
+// Rough starting points, keyed by line id or by the operator prefix of the
+// line id. Recordings differ by train generation and phone, so calibrating
+// on a ride (which saves a profile per line) beats these.
+const DEFAULT_TEMPLATES: Record<string, ChimeTemplate> = {
+  bts: { notes: [{ hz: 1175, ms: 250 }, { hz: 932, ms: 400 }] },
+  mrt: {
+    notes: [
+      { hz: 1319, ms: 150 },
+      { hz: 1047, ms: 150 },
+      { hz: 1319, ms: 150 },
+      { hz: 1047, ms: 150 },
+    ],
+  },
+}
+
+/** The built-in pattern for a line, or null where any sustained tone will do. */
+export function defaultTemplate(lineId: string): ChimeTemplate | null {
+  return DEFAULT_TEMPLATES[lineId] ?? DEFAULT_TEMPLATES[lineId.split('_')[0]] ?? null
+}
+
+// Calibrated margins stay within these bounds whatever the recordings say
+const MIN_MARGIN_DB = 6
+const MAX_MARGIN_DB = 30
+
+/**
+ * Averages recorded chimes into a template: the most common number of
+ * notes wins, then each note takes the median pitch and length. The margin
+ * is half the typical rise over the floor, leaving room for quieter
+ * carriages. Null if nothing was recorded.
+ */
+export function buildTemplate(phrases: HeardNote[][]): ChimeTemplate | null {
+  const counts = new Map<number, number>()
+  for (const phrase of phrases) counts.set(phrase.length, (counts.get(phrase.length) ?? 0) + 1)
+  const [length] = [...counts].filter(([n]) => n > 0).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [0]
+  if (length === 0) return null
+
+  const typical = phrases.filter((p) => p.length === length)
+  const notes = Array.from({ length }, (_, i) => ({
+    hz: Math.round(median(typical.map((p) => p[i].hz))),
+    ms: Math.round(median(typical.map((p) => p[i].ms))),
+  }))
+  const prominence = median(typical.flat().map((n) => n.prominenceDb))
+  const marginDb = Math.round(Math.min(MAX_MARGIN_DB, Math.max(MIN_MARGIN_DB, prominence / 2)))
+  return { notes, marginDb }
+}
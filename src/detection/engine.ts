@@ -0,0 +1,16 @@
+// Detection engines know nothing of React, the microphone or the Web Speech
+// API, so the same code runs live in the browser and over recordings in Node.
+
+export interface Detection {
+  source: 'speech' | 'chime'
+  timeMs: number // from the start of the recording or session
+  confidence: number // 0-1
+  detail: string
+  station?: string // station id, for speech matches
+}
+
+/** Feeds one input at a time; returns a detection when the input completes one. */
+export interface DetectorEngine<Input> {
+  process(input: Input, timeMs: number): Detection | null
+  reset(): void
+}
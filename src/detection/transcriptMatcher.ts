@@ -0,0 +1,118 @@
+import type { Station } from '../types'
+import type { Detection, DetectorEngine } from './engine'
+
+type NamedStation = Pick<Station, 'id' | 'name' | 'nameTh' | 'aliases'>
+
+export interface StationForms {
+  id: string
+  name: string
+  forms: string[] // every name and alias, normalised with `normalizeForMatching`
+}
+
+export interface StationMatch {
+  id: string
+  name: string
+  errors: number // edits between the heard text and the closest name
+  length: number // of that name, normalised
+}
+
+const THAI_DIGITS = /[\u0e50-\u0e59]/g
+// Shorter names must be heard exactly; "Ari" or "Nana" with one error could be anything
+const MIN_FUZZY_LENGTH = 5
+
+/**
+ * Lowercase, without accents, punctuation or spaces, and with Thai digits
+ * as Arabic ones. Spaces go because recognisers split Thai (and run-together
+ * romanisations like "Thonglor") unpredictably.
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .replace(THAI_DIGITS, (d) => String(d.charCodeAt(0) - 0x0e50))
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0e00-\u0e4f]/g, '')
+}
+
+export function buildStationForms(routeStations: NamedStation[]): StationForms[] {
+  return routeStations.map((s) => ({
+    id: s.id,
+    name: s.name,
+    forms: [s.name, s.nameTh ?? '', ...(s.aliases ?? [])].map(normalizeForMatching).filter((f) => f.length >= 3),
+  }))
+}
+
+// Fewest edits turning `pattern` into any substring of `text` (Sellers' algorithm)
+function substringDistance(pattern: string, text: string): number {
+  let previous: number[] = new Array(text.length + 1).fill(0)
+  for (let i = 1; i <= pattern.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= text.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1),
+      )
+    }
+    previous = current
+  }
+  return Math.min(...previous)
+}
+
+function allowedErrors(length: number): number {
+  return length < MIN_FUZZY_LENGTH ? 0 : Math.min(3, Math.floor(length / 5))
+}
+
+/**
+ * The station named in `text`, in English, Thai or an alias, tolerating
+ * recognition errors: about one wrong, missing or extra letter per five.
+ * Numbers must be heard exactly, so "Lat Phrao 71" never matches "83".
+ * The closest match wins, then the longest name.
+ */
+export function matchStationInText(text: string, stationForms: StationForms[]): StationMatch | null {
+  const heard = normalizeForMatching(text)
+  const heardNumbers = new Set(heard.match(/\d+/g) ?? [])
+
+  let best: (StationMatch & { score: number }) | null = null
+  for (const station of stationForms) {
+    for (const form of station.forms) {
+      if ((form.match(/\d+/g) ?? []).some((n) => !heardNumbers.has(n))) continue
+      const errors = substringDistance(form, heard)
+      if (errors > allowedErrors(form.length)) continue
+      const score = errors / form.length
+      if (!best || score < best.score || (score === best.score && form.length > best.length)) {
+        best = { id: station.id, name: station.name, errors, score, length: form.length }
+      }
+    }
+  }
+  return best && { id: best.id, name: best.name, errors: best.errors, length: best.length }
+}
+
+/**
+ * Matches recognised speech against the stations on a route. Each station
+ * is reported once, the first time it is heard, since announcements repeat
+ * and interim results re-send the same words.
+ */
+export function createTranscriptMatcher(routeStations: NamedStation[]): DetectorEngine<string> {
+  const stationForms = buildStationForms(routeStations)
+  let matched = new Set<string>()
+
+  return {
+    process(text, timeMs): Detection | null {
+      const match = matchStationInText(text, stationForms)
+      if (!match || matched.has(match.id)) return null
+      matched.add(match.id)
+      const fuzzy = match.errors > 0 ? ` (${match.errors} off)` : ''
+      return {
+        source: 'speech',
+        timeMs,
+        station: match.id,
+        confidence: 1 - match.errors / match.length,
+        detail: `Matched: "${match.name}"${fuzzy} from "${text.trim()}"`,
+      }
+    },
+    reset() {
+      matched = new Set()
+    },
+  }
+}
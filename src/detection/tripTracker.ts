@@ -0,0 +1,204 @@
+import type { LineId, Station } from '../types'
+import { stations } from '../data/stations'
+import { lines } from '../data/lines'
+import { haversineDistance } from '../utils/geo'
+import { findRide, getNextStations } from '../utils/network'
+
+// Fixes vaguer than this (underground, deep in a station) are ignored
+const MAX_ACCURACY_M = 100
+// How far from the line a fix may be and still count as on it
+const CORRIDOR_M = 150
+// Within this of a platform, a train standing still is at the station
+const STATION_RADIUS_M = 150
+const STOPPED_SPEED_MS = 1.5
+// Faster than walking or a bus in traffic; trains pass this between every pair of stops
+const RIDING_SPEED_MS = 8
+// Trains dwell 20-60 s; a shorter halt is a signal or the fix wandering
+const MIN_DWELL_MS = 10_000
+// Progress along the line that settles which way the train is heading
+const MIN_HEADING_M = 50
+// Without a speed from the device, it is taken over this long to smooth out jitter
+const SPEED_WINDOW_MS = 5000
+const METRES_PER_DEGREE = 111_320
+
+export interface PositionFix {
+  lat: number
+  lng: number
+  accuracy: number // metres
+  speed: number | null // m/s, when the device reports it
+  timeMs: number // epoch milliseconds
+}
+
+export interface TripState {
+  line: LineId | null // the line the rider is following, once on one
+  direction: string | null
+  station: Station | null // standing at, or the last stop
+  moving: boolean
+}
+
+export interface TripArrival {
+  station: Station
+  direction: string
+  timeMs: number // when the train came to a stop
+  from: Station | null // the previous stop, unless the ride was picked up between stations
+}
+
+export interface TripTracker {
+  /** Feeds a position; returns an arrival once a stop at a station has lasted long enough. */
+  process(fix: PositionFix): TripArrival | null
+  current(): TripState
+}
+
+// The line between consecutive stations, straight; close enough for elevated track
+interface Segment {
+  line: LineId
+  a: Station
+  b: Station
+}
+
+interface Snap {
+  segment: Segment
+  along: number // metres from `a`
+  offset: number // metres from the line
+}
+
+function buildSegments(): Segment[] {
+  const stationsById = new Map(stations.map((s) => [s.id, s]))
+  const seen = new Set<string>()
+  const segments: Segment[] = []
+  for (const line of lines) {
+    for (const pattern of line.directions.flatMap((d) => d.patterns)) {
+      pattern.slice(1).forEach((id, i) => {
+        const [a, b] = [stationsById.get(pattern[i]), stationsById.get(id)]
+        const key = [pattern[i], id].sort().join('|')
+        if (!a || !b || seen.has(key)) return
+        seen.add(key)
+        segments.push({ line: line.id, a, b })
+      })
+    }
+  }
+  return segments
+}
+
+const segments = buildSegments()
+
+// Flat metres east and north of `origin`, fine over a few kilometres
+function toMetres(origin: Station, lat: number, lng: number): [number, number] {
+  const x = (lng - origin.lng) * METRES_PER_DEGREE * Math.cos((origin.lat * Math.PI) / 180)
+  return [x, (lat - origin.lat) * METRES_PER_DEGREE]
+}
+
+function snapTo(segment: Segment, fix: PositionFix): Snap {
+  const [px, py] = toMetres(segment.a, fix.lat, fix.lng)
+  const [qx, qy] = toMetres(segment.a, segment.b.lat, segment.b.lng)
+  const length = Math.hypot(qx, qy)
+  const t = length > 0 ? Math.max(0, Math.min(1, (px * qx + py * qy) / length ** 2)) : 0
+  return { segment, along: t * length, offset: Math.hypot(px - t * qx, py - t * qy) }
+}
+
+// The closest stretch of line, keeping to the current line while it is in reach
+function snapToLine(fix: PositionFix, line: LineId | null): Snap | null {
+  const snaps = segments
+    .map((segment) => snapTo(segment, fix))
+    .filter((s) => s.offset <= CORRIDOR_M)
+    .sort((a, b) => a.offset - b.offset)
+  return snaps.find((s) => s.segment.line === line) ?? snaps[0] ?? null
+}
+
+function directionBetween(line: LineId, from: Station, to: Station): string | null {
+  const directions = lines.find((l) => l.id === line)?.directions ?? []
+  return directions.find((d) => getNextStations(line, d.id, from.id).some((s) => s.id === to.id))?.id ?? null
+}
+
+/**
+ * Follows a ride from GPS fixes, which are good enough on elevated lines.
+ * Each fix is snapped onto the nearest line; movement along it gives the
+ * direction, and standing still near a platform for `MIN_DWELL_MS` is a
+ * stop. A stop is reported as an arrival only after riding speed since the
+ * last one, so waiting on a platform or walking past a station is not.
+ */
+export function createTripTracker(): TripTracker {
+  let recent: PositionFix[] = []
+  let line: LineId | null = null
+  let direction: string | null = null
+  let lastStop: Station | null = null
+  let dwell: { station: Station; sinceMs: number; reported: boolean } | null = null
+  let heading: Snap | null = null
+  let rode = false
+  let moving = false
+
+  function speedOf(fix: PositionFix): number | null {
+    recent = [...recent.filter((f) => fix.timeMs - f.timeMs <= SPEED_WINDOW_MS), fix]
+    if (fix.speed !== null) return fix.speed
+    const first = recent[0]
+    const elapsed = fix.timeMs - first.timeMs
+    return elapsed >= SPEED_WINDOW_MS / 2
+      ? haversineDistance(first.lat, first.lng, fix.lat, fix.lng) / (elapsed / 1000)
+      : null
+  }
+
+  function arrive(station: Station, sinceMs: number): TripArrival | null {
+    const from = lastStop && lastStop.line === station.line && lastStop.id !== station.id ? lastStop : null
+    const wasRiding = rode
+    lastStop = station
+    rode = false
+    if (!wasRiding) return null
+
+    direction = (from && findRide(station.line, from.id, station.id)?.direction) ?? direction
+    return direction ? { station, direction, timeMs: sinceMs, from } : null
+  }
+
+  return {
+    process(fix) {
+      if (fix.accuracy > MAX_ACCURACY_M) return null
+      const speed = speedOf(fix)
+      if (speed !== null) moving = speed > STOPPED_SPEED_MS
+
+      const snap = snapToLine(fix, line)
+      if (!snap) {
+        // Off the line with a good fix: not on a train, whatever came before
+        rode = false
+        dwell = null
+        heading = null
+        return null
+      }
+      if (snap.segment.line !== line) {
+        line = snap.segment.line
+        direction = null
+        heading = null
+      }
+      if (speed !== null && speed >= RIDING_SPEED_MS) rode = true
+
+      if (moving) {
+        dwell = null
+        if (heading?.segment !== snap.segment) {
+          heading = snap
+        } else if (Math.abs(snap.along - heading.along) >= MIN_HEADING_M) {
+          const { a, b } = snap.segment
+          const [from, to] = snap.along > heading.along ? [a, b] : [b, a]
+          direction = directionBetween(snap.segment.line, from, to) ?? direction
+          heading = snap
+        }
+        return null
+      }
+      if (speed === null) return null
+
+      const [station] = stations
+        .filter((s) => s.line === line)
+        .map((s) => ({ s, distance: haversineDistance(fix.lat, fix.lng, s.lat, s.lng) }))
+        .filter(({ distance }) => distance <= STATION_RADIUS_M)
+        .sort((x, y) => x.distance - y.distance)
+        .map(({ s }) => s)
+      if (!station) {
+        dwell = null
+        return null
+      }
+
+      if (dwell?.station !== station) dwell = { station, sinceMs: fix.timeMs, reported: false }
+      if (dwell.reported || fix.timeMs - dwell.sinceMs < MIN_DWELL_MS) return null
+      dwell.reported = true
+      return arrive(station, dwell.sinceMs)
+    },
+    current: () => ({ line, direction, station: dwell?.station ?? lastStop, moving }),
+  }
+}
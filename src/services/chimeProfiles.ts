@@ -0,0 +1,33 @@
+import type { ChimeTemplate } from '../detection/chimeTemplates'
+
+// Chime templates calibrated on this device, per line; they replace the
+// built-in ones, which are only approximate.
+const STORAGE_KEY = 'transport-logger-chime-profiles'
+
+export interface ChimeProfile extends ChimeTemplate {
+  calibratedAt: string // ISO timestamp
+}
+
+export type ChimeProfiles = Record<string, ChimeProfile>
+
+export function loadChimeProfiles(): ChimeProfiles {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return {}
+    return JSON.parse(stored)
+  } catch {
+    return {}
+  }
+}
+
+/** Pass `null` to go back to the built-in template for that line. */
+export function saveChimeProfile(lineId: string, template: ChimeTemplate | null): ChimeProfiles {
+  const profiles = loadChimeProfiles()
+  if (template === null) {
+    delete profiles[lineId]
+  } else {
+    profiles[lineId] = { ...template, calibratedAt: new Date().toISOString() }
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+  return profiles
+}
@@ -0,0 +1,11 @@
+// Random per-browser id recorded on every entry, to tell devices apart.
+const STORAGE_KEY = 'transport-logger-device-id'
+
+export function getDeviceId(): string {
+  let id = localStorage.getItem(STORAGE_KEY)
+  if (!id) {
+    id = crypto.randomUUID()
+    localStorage.setItem(STORAGE_KEY, id)
+  }
+  return id
+}
@@ -1,11 +1,24 @@
 import type { GitHubConfig, LogEntry } from '../types'
+import { logKey, normalizeLogs } from '../utils/logs'
+import { parseLogFile, serializeLogFile } from '../utils/logSchema'
+import type { LogStore } from './logStore'
 
-const OWNER = 'thammarith'
-const REPO = 'transport-logger'
-const FILE_PATH = 'data/logs.json'
+const API_ROOT = 'https://api.github.com'
 
-function apiUrl(): string {
-  return `https://api.github.com/repos/${OWNER}/${REPO}/contents/${FILE_PATH}`
+export const DEFAULT_REPOSITORY: Omit<GitHubConfig, 'token'> = {
+  owner: 'thammarith',
+  repo: 'transport-logger',
+  branch: 'main',
+  path: 'data/logs.json',
+}
+
+function repoUrl(config: GitHubConfig): string {
+  return `${API_ROOT}/repos/${encodeURIComponent(config.owner)}/${encodeURIComponent(config.repo)}`
+}
+
+function apiUrl(config: GitHubConfig): string {
+  const path = config.path.split('/').map(encodeURIComponent).join('/')
+  return `${repoUrl(config)}/contents/${path}`
 }
 
 function headers(config: GitHubConfig): Record<string, string> {
@@ -21,10 +34,26 @@ interface GitHubFileResponse {
   sha: string
 }
 
+// atob/btoa work on Latin-1 only; notes and station names may be Thai
+function decodeBase64(base64: string): string {
+  const binary = atob(base64.replace(/\n/g, ''))
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+}
+
+function encodeBase64(text: string): string {
+  let binary = ''
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
 async function getFile(
   config: GitHubConfig,
 ): Promise<{ logs: LogEntry[]; sha: string | null }> {
-  const response = await fetch(apiUrl(), { headers: headers(config) })
+  // Bypass the HTTP cache: a stale sha would make every retry conflict again
+  const response = await fetch(`${apiUrl(config)}?ref=${encodeURIComponent(config.branch)}`, {
+    headers: headers(config),
+    cache: 'no-store',
+  })
   if (response.status === 404) {
     return { logs: [], sha: null }
   }
@@ -32,8 +61,7 @@ async function getFile(
     throw new Error(`GitHub API error: ${response.status}`)
   }
   const data: GitHubFileResponse = await response.json()
-  const decoded = atob(data.content.replace(/\n/g, ''))
-  return { logs: JSON.parse(decoded), sha: data.sha }
+  return { logs: parseLogFile(JSON.parse(decodeBase64(data.content))), sha: data.sha }
 }
 
 export async function fetchLogs(config: GitHubConfig): Promise<LogEntry[]> {
@@ -41,46 +69,197 @@ export async function fetchLogs(config: GitHubConfig): Promise<LogEntry[]> {
   return logs
 }
 
-export async function appendLog(
+const MAX_WRITE_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 300
+
+/** Thrown when the file kept changing underneath us and every retry lost the race. */
+export class GitHubConflictError extends Error {
+  readonly attempts: number
+
+  constructor(attempts: number) {
+    super(`GitHub file changed during write — gave up after ${attempts} attempts`)
+    this.name = 'GitHubConflictError'
+    this.attempts = attempts
+  }
+}
+
+function isShaConflict(status: number): boolean {
+  // 409: sha does not match; 422: sha missing because the file was just created
+  return status === 409 || status === 422
+}
+
+// 403 also means rate limiting, which says so in its headers
+function isMissingWriteAccess(response: Response): boolean {
+  return response.status === 403 && response.headers.get('X-RateLimit-Remaining') !== '0'
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function commit(
   config: GitHubConfig,
-  entry: LogEntry,
+  message: string,
+  apply: (logs: LogEntry[]) => LogEntry[],
 ): Promise<void> {
-  const { logs, sha } = await getFile(config)
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    // Re-read on every attempt so another device's write is merged, not overwritten
+    const { logs, sha } = await getFile(config)
 
-  logs.push(entry)
+    const body: Record<string, unknown> = {
+      message,
+      branch: config.branch,
+      content: encodeBase64(serializeLogFile(normalizeLogs(apply(logs)))),
+    }
+    if (sha) {
+      body.sha = sha
+    }
 
-  // Deduplicate
-  const seen = new Set<string>()
-  const unique = logs.filter((log) => {
-    const key = `${log.date}|${log.time}|${log.station}|${log.direction}`
-    if (seen.has(key)) return false
-    seen.add(key)
-    return true
-  })
+    const response = await fetch(apiUrl(config), {
+      method: 'PUT',
+      headers: headers(config),
+      body: JSON.stringify(body),
+    })
+
+    if (response.ok) return
+    if (isMissingWriteAccess(response)) throw new GitHubConfigError('insufficient_scope')
+    if (!isShaConflict(response.status)) {
+      throw new Error(`GitHub API error: ${response.status}`)
+    }
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      // Exponential backoff with jitter so two devices don't retry in lockstep
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random()))
+    }
+  }
+
+  throw new GitHubConflictError(MAX_WRITE_ATTEMPTS)
+}
+
+export async function appendLogs(
+  config: GitHubConfig,
+  entries: LogEntry[],
+): Promise<void> {
+  if (entries.length === 0) return
+
+  const [first] = entries
+  const message = entries.length === 1
+    ? `Add log entry: ${first.station} ${first.direction} ${first.time}`
+    : `Add ${entries.length} log entries`
 
-  // Sort by station, direction, dayType, time
-  unique.sort((a, b) =>
-    a.station.localeCompare(b.station)
-    || a.direction.localeCompare(b.direction)
-    || a.dayType.localeCompare(b.dayType)
-    || a.time.localeCompare(b.time),
+  await commit(config, message, (logs) => [...logs, ...entries])
+}
+
+export async function updateLog(
+  config: GitHubConfig,
+  previous: LogEntry,
+  next: LogEntry,
+): Promise<void> {
+  const key = logKey(previous)
+  await commit(
+    config,
+    `Update log entry: ${next.station} ${next.direction} ${next.time}`,
+    (logs) => logs.map((log) => (logKey(log) === key ? next : log)),
   )
+}
 
-  const body: Record<string, unknown> = {
-    message: `Add log entry: ${entry.station} ${entry.direction} ${entry.time}`,
-    content: btoa(JSON.stringify(unique, null, 2)),
+export async function deleteLog(
+  config: GitHubConfig,
+  entry: LogEntry,
+): Promise<void> {
+  const key = logKey(entry)
+  await commit(
+    config,
+    `Delete log entry: ${entry.station} ${entry.direction} ${entry.time}`,
+    (logs) => logs.filter((log) => logKey(log) !== key),
+  )
+}
+
+export function createGitHubStore(config: GitHubConfig): LogStore {
+  return {
+    list: () => fetchLogs(config),
+    append: (entries) => appendLogs(config, entries),
+    update: (previous, next) => updateLog(config, previous, next),
+    delete: (entry) => deleteLog(config, entry),
   }
-  if (sha) {
-    body.sha = sha
+}
+
+export type GitHubConfigProblem =
+  | 'bad_token'
+  | 'repo_not_found'
+  | 'insufficient_scope'
+  | 'branch_not_found'
+  | 'unreadable_file'
+
+const PROBLEM_MESSAGES: Record<GitHubConfigProblem, string> = {
+  bad_token: 'The token is invalid or has expired',
+  repo_not_found: 'Repository not found — check the owner and name, and that the token can see it',
+  insufficient_scope:
+    'The token cannot write to this repository — it needs the repo scope, or for a fine-grained token, Contents read and write access to this repository',
+  branch_not_found: 'Branch not found in this repository',
+  unreadable_file: 'The log file exists but could not be read with this token',
+}
+
+/**
+ * Thrown by `validateGitHubConfig` with the first problem found, and by
+ * writes the token turns out not to be allowed to make.
+ */
+export class GitHubConfigError extends Error {
+  readonly problem: GitHubConfigProblem
+
+  constructor(problem: GitHubConfigProblem) {
+    super(PROBLEM_MESSAGES[problem])
+    this.name = 'GitHubConfigError'
+    this.problem = problem
   }
+}
 
-  const response = await fetch(apiUrl(), {
-    method: 'PUT',
-    headers: headers(config),
-    body: JSON.stringify(body),
-  })
+interface GitHubRepoResponse {
+  permissions?: { pull: boolean; push: boolean }
+}
 
-  if (!response.ok) {
-    throw new Error(`GitHub API error: ${response.status}`)
+/**
+ * Checks that the token works and can read and write the log file on the
+ * configured branch. A missing file is fine — the first write creates it.
+ */
+export async function validateGitHubConfig(config: GitHubConfig): Promise<void> {
+  const get = (url: string) => fetch(url, { headers: headers(config), cache: 'no-store' })
+
+  const user = await get(`${API_ROOT}/user`)
+  if (user.status === 401) throw new GitHubConfigError('bad_token')
+  if (!user.ok) throw new Error(`GitHub API error: ${user.status}`)
+
+  const repo = await get(repoUrl(config))
+  if (repo.status === 404) throw new GitHubConfigError('repo_not_found')
+  if (repo.status === 403) throw new GitHubConfigError('insufficient_scope')
+  if (!repo.ok) throw new Error(`GitHub API error: ${repo.status}`)
+
+  // `permissions` is the user's role on the repo, not what the token grants
+  const repoData: GitHubRepoResponse = await repo.json()
+  if (!repoData.permissions?.push) throw new GitHubConfigError('insufficient_scope')
+
+  // Classic tokens list their scopes. Fine-grained tokens don't, so try a
+  // write: a blob nothing points to, which GitHub garbage-collects.
+  const scopes = repo.headers.get('X-OAuth-Scopes')
+  if (scopes !== null) {
+    const granted = scopes.split(',').map((scope) => scope.trim())
+    if (!granted.includes('repo') && !granted.includes('public_repo')) {
+      throw new GitHubConfigError('insufficient_scope')
+    }
+  } else {
+    const blob = await fetch(`${repoUrl(config)}/git/blobs`, {
+      method: 'POST',
+      headers: headers(config),
+      body: JSON.stringify({ content: 'transport-logger write check', encoding: 'utf-8' }),
+    })
+    if (isMissingWriteAccess(blob)) throw new GitHubConfigError('insufficient_scope')
+    if (!blob.ok) throw new Error(`GitHub API error: ${blob.status}`)
   }
+
+  const branch = await get(`${repoUrl(config)}/branches/${encodeURIComponent(config.branch)}`)
+  if (branch.status === 404) throw new GitHubConfigError('branch_not_found')
+  if (!branch.ok) throw new Error(`GitHub API error: ${branch.status}`)
+
+  const file = await get(`${apiUrl(config)}?ref=${encodeURIComponent(config.branch)}`)
+  if (file.status === 403) throw new GitHubConfigError('unreadable_file')
+  if (!file.ok && file.status !== 404) throw new Error(`GitHub API error: ${file.status}`)
 }
@@ -0,0 +1,27 @@
+// Per-date holiday overrides set by hand, for days the bundled calendar
+// gets wrong (special holidays, company days off).
+const STORAGE_KEY = 'transport-logger-holiday-overrides'
+
+export type HolidayOverrides = Record<string, boolean>
+
+export function loadHolidayOverrides(): HolidayOverrides {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return {}
+    return JSON.parse(stored)
+  } catch {
+    return {}
+  }
+}
+
+/** Pass `null` to go back to the calendar for that date. */
+export function setHolidayOverride(date: string, isHoliday: boolean | null): HolidayOverrides {
+  const overrides = loadHolidayOverrides()
+  if (isHoliday === null) {
+    delete overrides[date]
+  } else {
+    overrides[date] = isHoliday
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
+  return overrides
+}
@@ -0,0 +1,39 @@
+import { parseLogFile } from '../utils/logSchema'
+import type { LogStore } from './logStore'
+
+// Talks to a plain JSON server such as scripts/log-server.ts:
+//   GET    /logs  → LogFile (or a v1 array)
+//   POST   /logs  ← LogEntry[]
+//   PUT    /logs  ← { previous: LogEntry, next: LogEntry }
+//   DELETE /logs  ← LogEntry
+
+async function request(url: string, method: string, body?: unknown): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  if (!response.ok) {
+    throw new Error(`Log server error: ${response.status}`)
+  }
+  return response
+}
+
+export function createHttpStore(baseUrl: string): LogStore {
+  const url = `${baseUrl.replace(/\/+$/, '')}/logs`
+  return {
+    list: async () => {
+      const response = await request(url, 'GET')
+      return parseLogFile(await response.json())
+    },
+    append: async (entries) => {
+      await request(url, 'POST', entries)
+    },
+    update: async (previous, next) => {
+      await request(url, 'PUT', { previous, next })
+    },
+    delete: async (entry) => {
+      await request(url, 'DELETE', entry)
+    },
+  }
+}
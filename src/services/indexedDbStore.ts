@@ -0,0 +1,78 @@
+import type { LogEntry } from '../types'
+import { logKey, normalizeLogs } from '../utils/logs'
+import { upgradeEntry } from '../utils/logSchema'
+import type { LogStore } from './logStore'
+
+// Keeps logs in the browser only — no account or network needed.
+const DB_NAME = 'transport-logger'
+const DB_VERSION = 2
+const LOGS_STORE = 'logs'
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = (event) => {
+    if (event.oldVersion < 1) {
+      // Entries are stored out-of-line, keyed by logKey
+      request.result.createObjectStore(LOGS_STORE)
+      return
+    }
+    // v1 entries were keyed by date|time|station|direction; re-key them by id
+    const store = request.transaction!.objectStore(LOGS_STORE)
+    const existing = store.getAll()
+    existing.onsuccess = () => {
+      store.clear()
+      for (const entry of existing.result.map(upgradeEntry)) store.put(entry, logKey(entry))
+    }
+  }
+  return promisify(request)
+}
+
+async function write(apply: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDb()
+  try {
+    const tx = db.transaction(LOGS_STORE, 'readwrite')
+    apply(tx.objectStore(LOGS_STORE))
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export function createIndexedDbStore(): LogStore {
+  return {
+    list: async () => {
+      const db = await openDb()
+      try {
+        const store = db.transaction(LOGS_STORE).objectStore(LOGS_STORE)
+        const logs: LogEntry[] = await promisify(store.getAll())
+        return normalizeLogs(logs)
+      } finally {
+        db.close()
+      }
+    },
+    append: (entries) =>
+      write((store) => {
+        for (const entry of entries) store.put(entry, logKey(entry))
+      }),
+    update: (previous, next) =>
+      write((store) => {
+        store.delete(logKey(previous))
+        store.put(next, logKey(next))
+      }),
+    delete: (entry) =>
+      write((store) => {
+        store.delete(logKey(entry))
+      }),
+  }
+}
@@ -0,0 +1,45 @@
+import type { LogEntry, StoreConfig } from '../types'
+import { logKey, normalizeLogs } from '../utils/logs'
+import { createGitHubStore } from './github'
+import { createIndexedDbStore } from './indexedDbStore'
+import { createHttpStore } from './httpStore'
+
+/**
+ * Storage backend for log entries. Entries are identified by `logKey`, so
+ * `update` and `delete` match on that rather than object identity.
+ */
+export interface LogStore {
+  list(): Promise<LogEntry[]>
+  append(entries: LogEntry[]): Promise<void>
+  update(previous: LogEntry, next: LogEntry): Promise<void>
+  delete(entry: LogEntry): Promise<void>
+}
+
+export function createMemoryStore(initial: LogEntry[] = []): LogStore {
+  let logs = normalizeLogs(initial)
+  return {
+    list: async () => [...logs],
+    append: async (entries) => {
+      logs = normalizeLogs([...logs, ...entries])
+    },
+    update: async (previous, next) => {
+      const key = logKey(previous)
+      logs = normalizeLogs(logs.map((log) => (logKey(log) === key ? next : log)))
+    },
+    delete: async (entry) => {
+      const key = logKey(entry)
+      logs = logs.filter((log) => logKey(log) !== key)
+    },
+  }
+}
+
+export function createLogStore(config: StoreConfig): LogStore {
+  switch (config.backend) {
+    case 'github':
+      return createGitHubStore(config)
+    case 'indexeddb':
+      return createIndexedDbStore()
+    case 'http':
+      return createHttpStore(config.url)
+  }
+}
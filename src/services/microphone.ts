@@ -0,0 +1,46 @@
+export type FrameHandler = (samples: Float32Array, timeMs: number) => void
+
+export interface Microphone {
+  stop(): void
+}
+
+/**
+ * Opens the microphone and, once per animation frame, passes the latest
+ * `frameSize` samples (mono, -1–1) and `performance.now()` to the handler
+ * `setup` returns for the device's sample rate. Rejects if the rider
+ * refuses access.
+ */
+export async function startMicrophone(
+  frameSize: number,
+  setup: (sampleRate: number) => FrameHandler,
+): Promise<Microphone> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+  const audioCtx = new AudioContext()
+  const analyser = audioCtx.createAnalyser()
+  analyser.fftSize = frameSize
+  audioCtx.createMediaStreamSource(stream).connect(analyser)
+
+  const onFrame = setup(audioCtx.sampleRate)
+  const samples = new Float32Array(frameSize)
+  let raf = 0
+  let stopped = false
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples)
+    onFrame(samples, performance.now())
+    // The handler may have stopped the microphone itself
+    if (!stopped) raf = requestAnimationFrame(tick)
+  }
+  raf = requestAnimationFrame(tick)
+
+  return {
+    stop() {
+      if (stopped) return
+      stopped = true
+      cancelAnimationFrame(raf)
+      audioCtx.close().catch(() => {
+        // Already closed, or the page is going away
+      })
+      stream.getTracks().forEach((t) => t.stop())
+    },
+  }
+}
@@ -0,0 +1,87 @@
+import type { LogEntry } from '../types'
+import type { LogStore } from './logStore'
+import { logKey } from '../utils/logs'
+import { upgradeEntry } from '../utils/logSchema'
+
+// Entries are written here first so nothing is lost when GitHub is
+// unreachable (e.g. on underground platforms), then flushed in one batch.
+const STORAGE_KEY = 'transport-logger-outbox'
+
+export function loadOutbox(): LogEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    // Entries queued by an older version may still be v1
+    return JSON.parse(stored).map(upgradeEntry)
+  } catch {
+    return []
+  }
+}
+
+function saveOutbox(entries: LogEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+}
+
+export function enqueueLog(entry: LogEntry): LogEntry[] {
+  const queued = [...loadOutbox(), entry]
+  saveOutbox(queued)
+  return queued
+}
+
+let inFlight: Promise<LogEntry[]> | null = null
+let sending = new Map<string, string>()
+
+async function flush(store: LogStore): Promise<LogEntry[]> {
+  const queued = loadOutbox()
+  if (queued.length === 0) return []
+
+  sending = new Map(queued.map((entry) => [logKey(entry), JSON.stringify(entry)]))
+  try {
+    await store.append(queued)
+  } finally {
+    const sent = sending
+    sending = new Map()
+    // Only drop what was sent unchanged — entries queued or edited during the request stay
+    saveOutbox(loadOutbox().filter((entry) => sent.get(logKey(entry)) !== JSON.stringify(entry)))
+  }
+  return queued
+}
+
+// If the entry is being sent right now, wait for that to finish so the
+// caller knows to apply its change to the store as well.
+async function settledInOutbox(key: string): Promise<boolean> {
+  if (!inFlight || !sending.has(key)) return true
+  await inFlight.catch(() => undefined)
+  return false
+}
+
+/**
+ * Removes a queued entry. Resolves to false when the entry is (or may now
+ * be) in the store, in which case the caller should delete it there too.
+ */
+export async function dequeueLog(entry: LogEntry): Promise<boolean> {
+  const key = logKey(entry)
+  const queued = loadOutbox()
+  if (!queued.some((e) => logKey(e) === key)) return false
+  saveOutbox(queued.filter((e) => logKey(e) !== key))
+  return settledInOutbox(key)
+}
+
+/** Replaces a queued entry, with the same contract as `dequeueLog`. */
+export async function requeueLog(previous: LogEntry, next: LogEntry): Promise<boolean> {
+  const key = logKey(previous)
+  const queued = loadOutbox()
+  if (!queued.some((e) => logKey(e) === key)) return false
+  saveOutbox(queued.map((e) => (logKey(e) === key ? next : e)))
+  return settledInOutbox(key)
+}
+
+/** Sends every queued entry and resolves with the entries that were synced. */
+export function flushOutbox(store: LogStore): Promise<LogEntry[]> {
+  if (!inFlight) {
+    inFlight = flush(store).finally(() => {
+      inFlight = null
+    })
+  }
+  return inFlight
+}
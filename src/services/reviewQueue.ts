@@ -0,0 +1,34 @@
+import type { LogEntry } from '../types'
+import { logKey } from '../utils/logs'
+
+// Auto-logged arrivals wait here until the rider confirms them; only then
+// do they go to the outbox and on to the store.
+const STORAGE_KEY = 'transport-logger-review-queue'
+
+export function loadReviewQueue(): LogEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    return JSON.parse(stored)
+  } catch {
+    return []
+  }
+}
+
+function saveReviewQueue(entries: LogEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+}
+
+export function queueForReview(entry: LogEntry): LogEntry[] {
+  const queued = [...loadReviewQueue(), entry]
+  saveReviewQueue(queued)
+  return queued
+}
+
+/** Takes entries out of the queue, whether they were confirmed or discarded. */
+export function removeFromReview(entries: LogEntry[]): LogEntry[] {
+  const keys = new Set(entries.map(logKey))
+  const remaining = loadReviewQueue().filter((entry) => !keys.has(logKey(entry)))
+  saveReviewQueue(remaining)
+  return remaining
+}
@@ -1,35 +1,103 @@
-export type LineId = 'mrt_blue' | 'bts_sukhumvit' | 'bts_silom' | 'arl'
+// A GTFS route_id from data/gtfs, e.g. 'mrt_blue'
+export type LineId = string
 
 export type DayType = 'workday' | 'weekend' | 'holiday'
 
+// Finer split of DayType, derived from the date. Predictions try this first
+// and fall back to DayType when there is too little data.
+export type DayDetail = 'workday' | 'bridge' | 'saturday' | 'sunday' | 'holiday'
+
+export interface Holiday {
+  date: string // "YYYY-MM-DD"
+  name: string
+  substitutes?: string // date of the holiday this day replaces
+}
+
 export interface Station {
   id: string
   name: string
+  nameTh?: string
+  aliases?: string[] // other spellings riders and announcers use, e.g. 'Asoke'
   line: LineId
   lat: number
   lng: number
 }
 
+export interface Agency {
+  id: string
+  name: string
+  url: string
+  timezone: string // IANA, e.g. 'Asia/Bangkok'
+}
+
 export interface Line {
   id: LineId
   name: string
+  color: string // CSS colour for badges, from GTFS route_color
+  agency: string // Agency id, the operator
+  routeType: number // GTFS route_type: 1 metro, 2 rail, 12 monorail
   directions: [DirectionInfo, DirectionInfo]
+  runMinutes: number // typical minutes between consecutive stations, including dwell
+  runTimes?: Record<string, number> // per-hop overrides, keyed "fromId>toId"
 }
 
 export interface DirectionInfo {
   id: string
   label: string
+  // Station ids in calling order, longest pattern first. A branching line has
+  // one pattern per branch; a loop calls at some stations twice.
+  patterns: string[][]
 }
 
+// Stations on different lines that passengers can change between
+export interface Interchange {
+  stations: [string, string]
+  walkMinutes: number
+}
+
+export type LogSource = 'manual' | 'auto' | 'imported'
+
+export type LogEvent = 'arrival' | 'departure'
+
 export interface LogEntry {
+  id: string
+  timestamp: string // ISO 8601 with seconds, Bangkok offset
   station: string
   line: LineId
   direction: string
-  time: string // "HH:MM"
+  time: string // "HH:MM", Bangkok — derived from timestamp, kept for grouping
   dayType: DayType
-  date: string // "YYYY-MM-DD"
+  date: string // service date, "YYYY-MM-DD"
+  deviceId: string
+  source: LogSource
+  event: LogEvent
+  note?: string
+}
+
+// Original schema: a bare array of these, minute precision and no identity
+export interface LogEntryV1 {
+  station: string
+  line: LineId
+  direction: string
+  time: string
+  dayType: DayType
+  date: string
+}
+
+export interface LogFile {
+  version: 2
+  entries: LogEntry[]
 }
 
 export interface GitHubConfig {
   token: string
+  owner: string
+  repo: string
+  branch: string
+  path: string
 }
+
+export type StoreConfig =
+  | ({ backend: 'github' } & GitHubConfig)
+  | { backend: 'indexeddb' }
+  | { backend: 'http'; url: string }
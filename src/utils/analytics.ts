@@ -0,0 +1,60 @@
+import type { DayType, LogEntry } from '../types'
+import { collectHeadwayGaps } from './prediction'
+import { median } from './stats'
+import { SERVICE_DAY_START_HOUR, addDays, timeToMinutes } from './time'
+
+/** Every hour of the service day, 03:00 through 02:59 the next morning. */
+export const SERVICE_HOURS = Array.from({ length: 24 }, (_, i) => SERVICE_DAY_START_HOUR + i)
+
+export interface HeadwayDistribution {
+  hour: number // service-day hour
+  gaps: number[]
+  median: number | null
+}
+
+export function headwayDistributions(
+  logs: LogEntry[],
+  line: string,
+  direction: string,
+  dayType: DayType,
+): HeadwayDistribution[] {
+  return SERVICE_HOURS.map((hour) => {
+    const gaps = collectHeadwayGaps(logs, line, direction, dayType, hour)
+    return { hour, gaps, median: gaps.length > 0 ? median(gaps) : null }
+  })
+}
+
+/** Log counts indexed [station][hour], hours as in SERVICE_HOURS. */
+export function stationHourCounts(
+  logs: LogEntry[],
+  stationIds: string[],
+  dayType: DayType,
+): number[][] {
+  const rows = new Map(stationIds.map((id) => [id, SERVICE_HOURS.map(() => 0)]))
+  for (const log of logs) {
+    const row = rows.get(log.station)
+    if (!row || log.dayType !== dayType) continue
+    const hour = Math.floor(timeToMinutes(log.time) / 60)
+    row[hour - SERVICE_DAY_START_HOUR]++
+  }
+  return stationIds.map((id) => rows.get(id)!)
+}
+
+export interface DailyCount {
+  date: string
+  count: number
+}
+
+/** Logs per service date from the first logged date to the last, gaps included. */
+export function dailyCounts(logs: LogEntry[]): DailyCount[] {
+  if (logs.length === 0) return []
+  const counts = new Map<string, number>()
+  for (const log of logs) counts.set(log.date, (counts.get(log.date) ?? 0) + 1)
+
+  const dates = [...counts.keys()].sort()
+  const result: DailyCount[] = []
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addDays(date, 1)) {
+    result.push({ date, count: counts.get(date) ?? 0 })
+  }
+  return result
+}
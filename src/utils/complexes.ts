@@ -0,0 +1,52 @@
+import type { Station } from '../types'
+import { stations } from '../data/stations'
+import { interchanges } from '../data/interchanges'
+
+/** Co-located stations on different lines, shown to the rider as one place. */
+export interface StationComplex {
+  id: string
+  name: string // e.g. "Sukhumvit / Asok"; one name if every platform shares it
+  stations: Station[] // one per line, in `stations` order
+}
+
+function buildComplexes(): StationComplex[] {
+  // Union-find over interchange links, so chains like Bang Sue ↔ Krung Thep
+  // Aphiwat (Dark Red) ↔ Krung Thep Aphiwat (Light Red) end up together
+  const parent = new Map(stations.map((s) => [s.id, s.id]))
+  const root = (id: string): string => {
+    const p = parent.get(id) ?? id
+    if (p === id) return id
+    const r = root(p)
+    parent.set(id, r)
+    return r
+  }
+  for (const { stations: [a, b] } of interchanges) {
+    if (parent.has(a) && parent.has(b)) parent.set(root(a), root(b))
+  }
+
+  const groups = new Map<string, Station[]>()
+  for (const station of stations) {
+    const key = root(station.id)
+    groups.set(key, [...(groups.get(key) ?? []), station])
+  }
+
+  return [...groups.values()].map((members) => ({
+    id: members[0].id,
+    name: [...new Set(members.map((s) => s.name))].join(' / '),
+    stations: members,
+  }))
+}
+
+let cached: StationComplex[] | null = null
+let byStation: Map<string, StationComplex> | null = null
+
+export function getComplexes(): StationComplex[] {
+  cached ??= buildComplexes()
+  return cached
+}
+
+/** The complex a station belongs to; a station without interchanges is a complex of one. */
+export function getComplex(stationId: string): StationComplex | undefined {
+  byStation ??= new Map(getComplexes().flatMap((c) => c.stations.map((s) => [s.id, c] as const)))
+  return byStation.get(stationId)
+}
@@ -0,0 +1,130 @@
+import type { DayType, LogEntry } from '../types'
+import { stations } from '../data/stations'
+import { getLine } from '../data/lines'
+import { timeToMinutes } from './time'
+import { getNextStations } from './network'
+
+// A slot counts as covered once it has been logged on this many dates
+const TARGET_DATES = 3
+// Service hours worth logging: first trains around 05:30, last around midnight
+export const OPERATING_HOURS = Array.from({ length: 20 }, (_, i) => 5 + i)
+
+// Workdays are most of the year and most of the riding
+const DAY_TYPE_WEIGHT: Record<DayType, number> = {
+  workday: 1,
+  weekend: 0.6,
+  holiday: 0.3,
+}
+
+// Slots at stations people already visit are the easiest to fill
+const VISITED_STATION_BONUS = 0.5
+
+function hourWeight(hour: number): number {
+  // Rush hours matter most, late evening least
+  if ((hour >= 7 && hour < 10) || (hour >= 17 && hour < 20)) return 1
+  if (hour >= 22) return 0.5
+  return 0.75
+}
+
+export interface CoverageSlot {
+  station: string
+  line: string
+  direction: string
+  dayType: DayType
+  hour: number // service-day hour
+  dates: number // distinct dates logged
+  score: number // 0–1, 1 = fully covered
+  priority: number // higher = more worth logging next
+}
+
+function slotKey(station: string, direction: string, dayType: DayType, hour: number): string {
+  return `${station}|${direction}|${dayType}|${hour}`
+}
+
+const dateIndexCache = new WeakMap<LogEntry[], Map<string, Set<string>>>()
+
+// Cached per logs array: the main screen scores every platform and direction each second
+function indexDates(logs: LogEntry[]): Map<string, Set<string>> {
+  const cached = dateIndexCache.get(logs)
+  if (cached) return cached
+  const index = new Map<string, Set<string>>()
+  for (const log of logs) {
+    const hour = Math.floor(timeToMinutes(log.time) / 60)
+    const key = slotKey(log.station, log.direction, log.dayType, hour)
+    const dates = index.get(key) ?? new Set<string>()
+    dates.add(log.date)
+    index.set(key, dates)
+  }
+  dateIndexCache.set(logs, index)
+  return index
+}
+
+function toSlot(
+  index: Map<string, Set<string>>,
+  station: string,
+  line: string,
+  direction: string,
+  dayType: DayType,
+  hour: number,
+): CoverageSlot {
+  const dates = index.get(slotKey(station, direction, dayType, hour))?.size ?? 0
+  const score = Math.min(1, dates / TARGET_DATES)
+  return {
+    station,
+    line,
+    direction,
+    dayType,
+    hour,
+    dates,
+    score,
+    priority: (1 - score) * DAY_TYPE_WEIGHT[dayType] * hourWeight(hour),
+  }
+}
+
+// No train leaves a terminus in the direction that ends there
+function departsFrom(station: string, line: string, direction: string): boolean {
+  return getNextStations(line, direction, station).length > 0
+}
+
+/**
+ * Scores every station, direction, day type and operating hour against the
+ * logs and returns the least-covered slots, most worth logging first.
+ */
+export function findCoverageGaps(logs: LogEntry[], limit = 20): CoverageSlot[] {
+  const index = indexDates(logs)
+  const visited = new Set(logs.map((log) => log.station))
+  const slots: CoverageSlot[] = []
+  for (const station of stations) {
+    const line = getLine(station.line)
+    if (!line) continue
+    const bonus = visited.has(station.id) ? 1 + VISITED_STATION_BONUS : 1
+    for (const direction of line.directions) {
+      if (!departsFrom(station.id, line.id, direction.id)) continue
+      for (const dayType of Object.keys(DAY_TYPE_WEIGHT) as DayType[]) {
+        for (const hour of OPERATING_HOURS) {
+          const slot = toSlot(index, station.id, line.id, direction.id, dayType, hour)
+          if (slot.score < 1) slots.push({ ...slot, priority: slot.priority * bonus })
+        }
+      }
+    }
+  }
+  return slots
+    .sort((a, b) => b.priority - a.priority || a.dates - b.dates)
+    .slice(0, limit)
+}
+
+/**
+ * Coverage of a single slot, e.g. the one the user is standing in. A slot
+ * no train departs in counts as covered, since there is nothing to log.
+ */
+export function scoreCoverage(
+  logs: LogEntry[],
+  station: string,
+  line: string,
+  direction: string,
+  dayType: DayType,
+  hour: number,
+): CoverageSlot {
+  const slot = toSlot(indexDates(logs), station, line, direction, dayType, hour)
+  return departsFrom(station, line, direction) ? slot : { ...slot, score: 1, priority: 0 }
+}
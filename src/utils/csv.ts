@@ -0,0 +1,224 @@
+import type { DayType, LogEntry, LogEvent } from '../types'
+import { stations } from '../data/stations'
+import { getLine } from '../data/lines'
+import { getDayType } from './dayType'
+import { logKey } from './logs'
+import { withTime } from './logSchema'
+
+// Column order is part of the format — append new columns, never reorder
+export const CSV_COLUMNS = [
+  'id',
+  'date',
+  'time',
+  'station',
+  'line',
+  'direction',
+  'day_type',
+  'event',
+  'timestamp',
+  'device_id',
+  'source',
+  'note',
+] as const
+
+type CsvColumn = (typeof CSV_COLUMNS)[number]
+
+const REQUIRED_COLUMNS: CsvColumn[] = ['date', 'time', 'station', 'direction']
+const DAY_TYPES: DayType[] = ['workday', 'weekend', 'holiday']
+const EVENTS: LogEvent[] = ['arrival', 'departure']
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Spreadsheets run a cell starting with one of these as a formula; a
+// leading apostrophe makes it text, and import takes it off again
+const FORMULA_START = /^[=+\-@]/
+const ESCAPED_FORMULA = /^'(?=[=+\-@])/
+
+function escapeFormula(value: string): string {
+  return FORMULA_START.test(value) ? `'${value}` : value
+}
+
+function toRow(entry: LogEntry): Record<CsvColumn, string> {
+  return {
+    id: entry.id,
+    date: entry.date,
+    time: entry.time,
+    station: entry.station,
+    line: entry.line,
+    direction: entry.direction,
+    day_type: entry.dayType,
+    event: entry.event,
+    timestamp: entry.timestamp,
+    device_id: entry.deviceId,
+    source: entry.source,
+    note: escapeFormula(entry.note ?? ''),
+  }
+}
+
+/** Joins rows into RFC 4180 CSV, quoting only fields that need it. */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => `${row.map(escapeField).join(',')}\r\n`).join('')
+}
+
+export function logsToCsv(logs: LogEntry[]): string {
+  return formatCsv([
+    [...CSV_COLUMNS],
+    ...logs.map((entry) => {
+      const row = toRow(entry)
+      return CSV_COLUMNS.map((column) => row[column])
+    }),
+  ])
+}
+
+/** Splits RFC 4180 CSV into rows of fields. Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ''))
+}
+
+export type CsvImportRow =
+  | { row: number; status: 'new'; entry: LogEntry }
+  | { row: number; status: 'duplicate'; entry: LogEntry }
+  | { row: number; status: 'error'; errors: string[] }
+
+// Same train at the same platform, whoever logged it
+function observationKey(entry: LogEntry): string {
+  return `${entry.date}|${entry.time}|${entry.station}|${entry.direction}`
+}
+
+function normalizeTime(value: string): string | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value)
+  if (!match) return null
+  const [, h, m, s] = match
+  if (Number(h) > 23 || Number(m) > 59 || (s && Number(s) > 59)) return null
+  return `${h.padStart(2, '0')}:${m}${s ? `:${s}` : ''}`
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const parsed = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value)
+}
+
+function parseRow(fields: Partial<Record<CsvColumn, string>>, deviceId: string): LogEntry | string[] {
+  const errors: string[] = []
+  const value = (column: CsvColumn) => fields[column]?.trim() ?? ''
+
+  const date = value('date')
+  if (!isValidDate(date)) errors.push(`invalid date "${date}"`)
+
+  const time = normalizeTime(value('time'))
+  if (!time) errors.push(`invalid time "${value('time')}"`)
+
+  const station = stations.find((s) => s.id === value('station'))
+  if (!station) errors.push(`unknown station "${value('station')}"`)
+
+  const line = station ? getLine(station.line) : undefined
+  if (station && value('line') && value('line') !== station.line) {
+    errors.push(`station ${station.id} is not on line "${value('line')}"`)
+  }
+  const direction = value('direction')
+  if (line && !line.directions.some((d) => d.id === direction)) {
+    errors.push(`unknown direction "${direction}" for ${line.name}`)
+  }
+
+  const dayType = value('day_type')
+  if (dayType && !DAY_TYPES.includes(dayType as DayType)) errors.push(`invalid day type "${dayType}"`)
+  const event = value('event')
+  if (event && !EVENTS.includes(event as LogEvent)) errors.push(`invalid event "${event}"`)
+  const timestamp = value('timestamp')
+  if (timestamp && Number.isNaN(Date.parse(timestamp))) errors.push(`invalid timestamp "${timestamp}"`)
+
+  if (errors.length > 0 || !station || !time) return errors
+
+  const minutes = time.slice(0, 5)
+  const seconds = time.slice(6) || '00'
+  // withTime fills in the calendar date and offset; only the seconds are read from here
+  const entry = withTime({
+    id: value('id') || crypto.randomUUID(),
+    timestamp: `${date}T${minutes}:${seconds}`,
+    station: station.id,
+    line: station.line,
+    direction,
+    time: minutes,
+    dayType: (dayType as DayType) || getDayType(date),
+    date,
+    deviceId: value('device_id') || deviceId,
+    source: 'imported',
+    event: (event as LogEvent) || 'arrival',
+    ...(value('note') ? { note: value('note').replace(ESCAPED_FORMULA, '') } : {}),
+  }, minutes)
+  // Keep a timestamp from our own export as is; it carries the original offset and seconds
+  return timestamp ? { ...entry, timestamp } : entry
+}
+
+/**
+ * Validates every row of a CSV file against the station and line data and
+ * marks rows already in `existing` (by id, or same station, direction,
+ * date and time) as duplicates. Only the header row is required to match
+ * `CSV_COLUMNS`; unknown columns are ignored.
+ */
+export function parseLogCsv(text: string, existing: LogEntry[], deviceId: string): CsvImportRow[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) throw new Error('The file is empty')
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column))
+  if (missing.length > 0) throw new Error(`Missing columns: ${missing.join(', ')}`)
+
+  const seenIds = new Set(existing.map(logKey))
+  const seenObservations = new Set(existing.map(observationKey))
+
+  return rows.map((fields, i): CsvImportRow => {
+    // Row numbers as shown in a spreadsheet, counting the header
+    const row = i + 2
+    const record: Partial<Record<CsvColumn, string>> = {}
+    columns.forEach((column, j) => {
+      if ((CSV_COLUMNS as readonly string[]).includes(column)) record[column as CsvColumn] = fields[j]
+    })
+
+    const parsed = parseRow(record, deviceId)
+    if (Array.isArray(parsed)) return { row, status: 'error', errors: parsed }
+
+    const duplicate = seenIds.has(logKey(parsed)) || seenObservations.has(observationKey(parsed))
+    seenIds.add(logKey(parsed))
+    seenObservations.add(observationKey(parsed))
+    return { row, status: duplicate ? 'duplicate' : 'new', entry: parsed }
+  })
+}
@@ -1,8 +1,44 @@
-import type { DayType } from '../types'
+import type { DayDetail, DayType } from '../types'
+import { getHoliday } from '../data/holidays'
+import { addDays } from './time'
 
-export function getDayType(date: Date, isHoliday: boolean): DayType {
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+function isOffDay(date: string): boolean {
+  const day = weekday(date)
+  return day === 0 || day === 6 || getHoliday(date) !== undefined
+}
+
+/**
+ * `holidayOverride` replaces the calendar's answer for this date — set it
+ * when the user marks a day as a holiday (or not) by hand.
+ */
+export function getDayDetail(date: string, holidayOverride?: boolean): DayDetail {
+  const isHoliday = holidayOverride ?? getHoliday(date) !== undefined
   if (isHoliday) return 'holiday'
-  const day = date.getDay()
-  if (day === 0 || day === 6) return 'weekend'
+  const day = weekday(date)
+  if (day === 0) return 'sunday'
+  if (day === 6) return 'saturday'
+  // A lone workday between days off — many people take it off too
+  if (isOffDay(addDays(date, -1)) && isOffDay(addDays(date, 1))) return 'bridge'
   return 'workday'
 }
+
+export function toDayType(detail: DayDetail): DayType {
+  switch (detail) {
+    case 'holiday':
+      return 'holiday'
+    case 'saturday':
+    case 'sunday':
+      return 'weekend'
+    case 'workday':
+    case 'bridge':
+      return 'workday'
+  }
+}
+
+export function getDayType(date: string, holidayOverride?: boolean): DayType {
+  return toDayType(getDayDetail(date, holidayOverride))
+}
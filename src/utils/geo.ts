@@ -1,4 +1,5 @@
 import type { Station } from '../types'
+import type { StationComplex } from './complexes'
 
 export function haversineDistance(
   lat1: number,
@@ -35,3 +36,24 @@ export function findNearbyStations(
     .filter(({ distance }) => distance <= maxDistanceMetres)
     .sort((a, b) => a.distance - b.distance)
 }
+
+export interface ComplexWithDistance {
+  complex: StationComplex
+  distance: number // to the nearest platform in the complex
+}
+
+/** Like `findNearbyStations`, but each interchange is listed once. */
+export function findNearbyComplexes(
+  lat: number,
+  lng: number,
+  complexes: StationComplex[],
+  maxDistanceMetres = 1500,
+): ComplexWithDistance[] {
+  return complexes
+    .map((complex) => ({
+      complex,
+      distance: Math.min(...complex.stations.map((s) => haversineDistance(lat, lng, s.lat, s.lng))),
+    }))
+    .filter(({ distance }) => distance <= maxDistanceMetres)
+    .sort((a, b) => a.distance - b.distance)
+}
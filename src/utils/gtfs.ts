@@ -0,0 +1,154 @@
+import type { DayType, LogEntry } from '../types'
+import { agencies } from '../data/agencies'
+import { stations } from '../data/stations'
+import { lines } from '../data/lines'
+import { interchanges } from '../data/interchanges'
+import { getHolidays } from '../data/holidays'
+import { SERVICE_HOURS } from './analytics'
+import { estimateHeadway } from './prediction'
+import { hopMinutes, learnRunTimes } from './runTimes'
+import { getPatterns } from './network'
+import { formatCsv } from './csv'
+import { zipFiles } from './zip'
+
+const PUBLISHER_URL = 'https://github.com/thammarith/transport-logger'
+
+const DAY_TYPES: DayType[] = ['workday', 'weekend', 'holiday']
+
+// GTFS times count from service-day midnight and may pass 24:00:00
+function formatGtfsTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  return [h, m, s].map((n) => String(n).padStart(2, '0')).join(':')
+}
+
+function gtfsDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+function buildCalendar(): { calendar: string[][]; calendarDates: string[][] } {
+  const holidays = getHolidays()
+  const years = holidays.map((h) => h.date.slice(0, 4)).sort()
+  const start = `${years[0]}0101`
+  const end = `${years[years.length - 1]}1231`
+
+  const calendar = [
+    ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+    ['workday', '1', '1', '1', '1', '1', '0', '0', start, end],
+    ['weekend', '0', '0', '0', '0', '0', '1', '1', start, end],
+    // Runs only on the dates added in calendar_dates.txt
+    ['holiday', '0', '0', '0', '0', '0', '0', '0', start, end],
+  ]
+
+  const calendarDates = [['service_id', 'date', 'exception_type']]
+  for (const { date } of holidays) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+    const replaced = weekday === 0 || weekday === 6 ? 'weekend' : 'workday'
+    calendarDates.push([replaced, gtfsDate(date), '2'], ['holiday', gtfsDate(date), '1'])
+  }
+  return { calendar, calendarDates }
+}
+
+/**
+ * Builds a frequency-based GTFS feed from the network data and the logs.
+ * Each line, direction and day type becomes one template trip timed with
+ * learned run times, repeated at the observed headway for every service
+ * hour that has one. Hours without enough logs have no service.
+ */
+export function buildGtfsFeed(logs: LogEntry[]): Record<string, string> {
+  const runTimes = learnRunTimes(logs)
+  const agency = [
+    ['agency_id', 'agency_name', 'agency_url', 'agency_timezone'],
+    ...agencies.map((a) => [a.id, a.name, a.url, a.timezone]),
+  ]
+  const stops = [
+    ['stop_id', 'stop_name', 'stop_lat', 'stop_lon'],
+    ...stations.map((s) => [s.id, s.name, String(s.lat), String(s.lng)]),
+  ]
+  const routes = [
+    ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type', 'route_color'],
+    ...lines.map((line) => [
+      line.id,
+      line.agency,
+      line.name,
+      `${line.directions[0].label} – ${line.directions[1].label}`,
+      String(line.routeType),
+      line.color.replace('#', ''),
+    ]),
+  ]
+
+  const trips = [['route_id', 'service_id', 'trip_id', 'trip_headsign', 'direction_id']]
+  const stopTimes = [['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence']]
+  const frequencies = [['trip_id', 'start_time', 'end_time', 'headway_secs', 'exact_times']]
+
+  for (const line of lines) {
+    line.directions.forEach((direction, directionIndex) => {
+      // Headways are logged per direction, not per branch, so only the full run is timetabled
+      const [sequence = []] = getPatterns(line.id, direction.id)
+      if (sequence.length === 0) return
+
+      for (const dayType of DAY_TYPES) {
+        const tripId = `${line.id}_${direction.id}_${dayType}`
+        const headways = SERVICE_HOURS.flatMap((hour) => {
+          const headway = estimateHeadway(logs, line.id, direction.id, dayType, hour)
+          if (!headway) return []
+          const start = formatGtfsTime(hour * 3600)
+          const end = formatGtfsTime((hour + 1) * 3600)
+          return [[tripId, start, end, String(headway.minutes * 60), '0']]
+        })
+        if (headways.length === 0) continue
+
+        trips.push([line.id, dayType, tripId, direction.label, String(directionIndex)])
+        frequencies.push(...headways)
+
+        let minutes = 0
+        sequence.forEach((station, i) => {
+          if (i > 0) minutes += hopMinutes(runTimes, line.id, sequence[i - 1], station)
+          const time = formatGtfsTime(Math.round(minutes * 60))
+          stopTimes.push([tripId, time, time, station, String(i + 1)])
+        })
+      }
+    })
+  }
+
+  // transfer_type 2: a timed change, listed in both directions
+  const transfers = [
+    ['from_stop_id', 'to_stop_id', 'transfer_type', 'min_transfer_time'],
+    ...interchanges.flatMap(({ stations: [a, b], walkMinutes }) => [
+      [a, b, '2', String(walkMinutes * 60)],
+      [b, a, '2', String(walkMinutes * 60)],
+    ]),
+  ]
+
+  // feed_info is required once there are translations
+  const feedInfo = [
+    ['feed_publisher_name', 'feed_publisher_url', 'feed_lang'],
+    ['Transport Logger', PUBLISHER_URL, 'en'],
+  ]
+  const translations = [
+    ['table_name', 'field_name', 'language', 'translation', 'record_id'],
+    ...stations.flatMap((s) => (s.nameTh ? [['stops', 'stop_name', 'th', s.nameTh, s.id]] : [])),
+  ]
+
+  const { calendar, calendarDates } = buildCalendar()
+  const files: Record<string, string[][]> = {
+    'agency.txt': agency,
+    'stops.txt': stops,
+    'routes.txt': routes,
+    'trips.txt': trips,
+    'stop_times.txt': stopTimes,
+    'frequencies.txt': frequencies,
+    'calendar.txt': calendar,
+    'calendar_dates.txt': calendarDates,
+    'transfers.txt': transfers,
+    'feed_info.txt': feedInfo,
+    'translations.txt': translations,
+  }
+  return Object.fromEntries(Object.entries(files).map(([name, rows]) => [name, formatCsv(rows)]))
+}
+
+export function zipGtfsFeed(feed: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  return zipFiles(Object.fromEntries(Object.entries(feed).map(([name, text]) => [name, encoder.encode(text)])))
+}
@@ -0,0 +1,290 @@
+import type { Agency, DirectionInfo, Interchange, Line, Station } from '../types'
+import { parseCsv } from './csv'
+import { median } from './stats'
+
+export interface Network {
+  agencies: Agency[]
+  stations: Station[]
+  lines: Line[]
+  interchanges: Interchange[]
+}
+
+/** Thrown by `parseGtfsNetwork` with every problem found, so a feed can be fixed in one pass. */
+export class GtfsValidationError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Invalid GTFS feed:\n${problems.map((p) => `  - ${p}`).join('\n')}`)
+    this.name = 'GtfsValidationError'
+    this.problems = problems
+  }
+}
+
+type Row = Record<string, string>
+
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+  'agency.txt': ['agency_id', 'agency_name', 'agency_url', 'agency_timezone'],
+  'stops.txt': ['stop_id', 'stop_name', 'stop_lat', 'stop_lon'],
+  'routes.txt': ['route_id', 'agency_id', 'route_type'],
+  'trips.txt': ['route_id', 'trip_id', 'direction_id'],
+  'stop_times.txt': ['trip_id', 'stop_id', 'stop_sequence'],
+  'transfers.txt': ['from_stop_id', 'to_stop_id'],
+  'translations.txt': ['table_name', 'field_name', 'language', 'translation', 'record_id'],
+  // Not part of GTFS; other consumers ignore it
+  'station_aliases.txt': ['stop_id', 'alias'],
+}
+
+// Used when transfers.txt gives no min_transfer_time
+const DEFAULT_WALK_MINUTES = 5
+// Used when routes.txt gives no route_color
+const DEFAULT_LINE_COLOR = '#6b7280'
+
+function readTable(files: Record<string, string>, name: string, problems: string[], optional = false): Row[] {
+  const text = files[name]
+  if (text === undefined) {
+    if (!optional) problems.push(`${name} is missing`)
+    return []
+  }
+  const [header = [], ...rows] = parseCsv(text)
+  const columns = header.map((c) => c.trim())
+  const missing = REQUIRED_COLUMNS[name].filter((c) => !columns.includes(c))
+  if (missing.length > 0) problems.push(`${name} has no ${missing.join(', ')} column`)
+  return rows.map((fields) => Object.fromEntries(columns.map((c, i) => [c, fields[i]?.trim() ?? ''])))
+}
+
+function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+}
+
+function parseGtfsTime(value: string): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(value)
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null
+}
+
+interface Call {
+  stop: string
+  seconds: number | null
+}
+
+interface Pattern {
+  headsign: string
+  stops: string[]
+  calls: Call[] // from the first trip seen with this pattern, for run times
+}
+
+function containsRun(pattern: string[], run: string[]): boolean {
+  return `|${pattern.join('|')}|`.includes(`|${run.join('|')}|`)
+}
+
+// Longest first, dropping short workings that run over part of a longer pattern
+function prunePatterns(patterns: Pattern[]): Pattern[] {
+  const sorted = [...patterns].sort((a, b) => b.stops.length - a.stops.length)
+  return sorted.filter((p, i) => !sorted.slice(0, i).some((longer) => containsRun(longer.stops, p.stops)))
+}
+
+/**
+ * Builds the station and line model from a GTFS feed, given as file name to
+ * CSV text. Operators come from agency.txt. Each route becomes a line whose directions carry every distinct
+ * stopping pattern of its trips, so loops and branches survive; the longest
+ * pattern names the terminus. Child stops (platforms) are folded into their
+ * parent station, and transfers.txt, if present, gives the interchanges.
+ * Thai names come from translations.txt and other spellings from the
+ * station_aliases.txt extension, both optional.
+ */
+export function parseGtfsNetwork(files: Record<string, string>): Network {
+  const problems: string[] = []
+  const agencyRows = readTable(files, 'agency.txt', problems)
+  const stops = readTable(files, 'stops.txt', problems)
+  const routes = readTable(files, 'routes.txt', problems)
+  const trips = readTable(files, 'trips.txt', problems)
+  const stopTimes = readTable(files, 'stop_times.txt', problems)
+  const transfers = readTable(files, 'transfers.txt', problems, true)
+  const translations = readTable(files, 'translations.txt', problems, true)
+  const aliasRows = readTable(files, 'station_aliases.txt', problems, true)
+  if (problems.length > 0) throw new GtfsValidationError(problems)
+
+  const stopsById = new Map(stops.map((s) => [s.stop_id, s]))
+  const stationOf = (stopId: string) => {
+    const parent = stopsById.get(stopId)?.parent_station
+    return parent && stopsById.has(parent) ? parent : stopId
+  }
+
+  const callsByTrip = new Map<string, (Call & { sequence: number })[]>()
+  for (const row of stopTimes) {
+    if (!stopsById.has(row.stop_id)) {
+      problems.push(`stop_times.txt: trip ${row.trip_id} calls at unknown stop ${row.stop_id}`)
+      continue
+    }
+    const call = {
+      stop: stationOf(row.stop_id),
+      seconds: parseGtfsTime(row.arrival_time || row.departure_time || ''),
+      sequence: Number(row.stop_sequence),
+    }
+    callsByTrip.set(row.trip_id, [...(callsByTrip.get(row.trip_id) ?? []), call])
+  }
+
+  const agencies = agencyRows.map((a): Agency => ({
+    id: a.agency_id,
+    name: a.agency_name,
+    url: a.agency_url,
+    timezone: a.agency_timezone,
+  }))
+  const agencyIds = new Set(agencies.map((a) => a.id))
+
+  const routeIds = new Set(routes.map((r) => r.route_id))
+  for (const trip of trips) {
+    if (!routeIds.has(trip.route_id)) problems.push(`trips.txt: trip ${trip.trip_id} has unknown route ${trip.route_id}`)
+  }
+
+  const lineOfStation = new Map<string, string>()
+  const lines: Line[] = []
+  const stationIds: string[] = []
+
+  for (const route of routes) {
+    const lineId = route.route_id
+    const name = route.route_short_name || route.route_long_name || lineId
+    const routeType = Number(route.route_type)
+    if (!agencyIds.has(route.agency_id)) problems.push(`${name}: unknown agency ${route.agency_id}`)
+    if (!route.route_type || !Number.isInteger(routeType)) problems.push(`${name}: invalid route_type ${route.route_type}`)
+
+    const byDirection = new Map<string, Pattern[]>()
+    for (const trip of trips.filter((t) => t.route_id === lineId)) {
+      const calls = [...(callsByTrip.get(trip.trip_id) ?? [])].sort((a, b) => a.sequence - b.sequence)
+      const patterns = byDirection.get(trip.direction_id) ?? []
+      const stops = calls.map((c) => c.stop)
+      if (stops.length >= 2 && !patterns.some((p) => p.stops.join() === stops.join())) {
+        patterns.push({ headsign: trip.trip_headsign ?? '', stops, calls })
+      }
+      byDirection.set(trip.direction_id, patterns)
+    }
+
+    const outbound = prunePatterns(byDirection.get('0') ?? [])
+    const inbound = prunePatterns(byDirection.get('1') ?? [])
+    if (outbound.length === 0 || inbound.length === 0 || byDirection.size !== 2) {
+      problems.push(`${name}: needs trips calling at two or more stops in exactly directions 0 and 1`)
+      continue
+    }
+
+    const lineStops = [...new Set([...inbound, ...outbound].flatMap((p) => p.stops))]
+    for (const stop of lineStops) {
+      const other = lineOfStation.get(stop)
+      if (other && other !== lineId) {
+        problems.push(`stop ${stop} is served by both ${other} and ${lineId}; give each line its own stop`)
+      }
+      lineOfStation.set(stop, lineId)
+    }
+    // Stations are listed in the order direction 1 first calls at them
+    stationIds.push(...inbound.flatMap((p) => p.stops), ...lineStops)
+
+    const directions = [outbound, inbound].map((patterns): DirectionInfo => {
+      const { headsign, stops } = patterns[0]
+      const terminus = stopsById.get(stops[stops.length - 1])?.stop_name ?? ''
+      return { id: slugify(terminus), label: headsign || terminus, patterns: patterns.map((p) => p.stops) }
+    })
+    if (directions.some((d) => !d.id)) {
+      problems.push(`${name}: cannot derive a direction id from the terminus names`)
+    } else if (directions[0].id === directions[1].id) {
+      problems.push(`${name}: both directions end at ${directions[0].label}`)
+    }
+
+    const hops = new Map<string, number>()
+    for (const { calls } of [...outbound, ...inbound]) {
+      for (let i = 1; i < calls.length; i++) {
+        const from = calls[i - 1].seconds
+        const to = calls[i].seconds
+        if (from === null || to === null) continue
+        hops.set(`${calls[i - 1].stop}>${calls[i].stop}`, (to - from) / 60)
+      }
+    }
+    if (hops.size === 0) {
+      problems.push(`${name}: no timed stop_times to take run times from`)
+      continue
+    }
+
+    const runMinutes = Math.round(median([...hops.values()]) * 10) / 10
+    // Only hops that differ noticeably from the line's typical run are kept
+    const runTimes = Object.fromEntries(
+      [...hops]
+        .filter(([, minutes]) => Math.abs(minutes - runMinutes) >= 0.5)
+        .map(([key, minutes]) => [key, Math.round(minutes * 10) / 10]),
+    )
+
+    lines.push({
+      id: lineId,
+      name,
+      color: /^[0-9a-f]{6}$/i.test(route.route_color ?? '') ? `#${route.route_color.toUpperCase()}` : DEFAULT_LINE_COLOR,
+      agency: route.agency_id,
+      routeType,
+      directions: [directions[0], directions[1]],
+      runMinutes,
+      ...(Object.keys(runTimes).length > 0 ? { runTimes } : {}),
+    })
+  }
+
+  const thaiNames = new Map<string, string>()
+  for (const row of translations) {
+    if (row.table_name !== 'stops' || row.field_name !== 'stop_name' || row.language !== 'th') continue
+    if (!stopsById.has(row.record_id)) problems.push(`translations.txt: unknown stop ${row.record_id}`)
+    else thaiNames.set(stationOf(row.record_id), row.translation)
+  }
+
+  const aliases = new Map<string, string[]>()
+  for (const row of aliasRows) {
+    if (!stopsById.has(row.stop_id)) {
+      problems.push(`station_aliases.txt: unknown stop ${row.stop_id}`)
+      continue
+    }
+    const station = stationOf(row.stop_id)
+    if (row.alias) aliases.set(station, [...(aliases.get(station) ?? []), row.alias])
+  }
+
+  const stations = [...new Set(stationIds)].flatMap((id): Station[] => {
+    const stop = stopsById.get(id)
+    if (!stop) return []
+    const lat = Number(stop.stop_lat)
+    const lng = Number(stop.stop_lon)
+    if (!stop.stop_name) problems.push(`stop ${id} has no name`)
+    if (!stop.stop_lat || !stop.stop_lon || Math.abs(lat) > 90 || Math.abs(lng) > 180 || Number.isNaN(lat + lng)) {
+      problems.push(`stop ${id} has invalid coordinates ${stop.stop_lat},${stop.stop_lon}`)
+    }
+    return [{
+      id,
+      name: stop.stop_name,
+      ...(thaiNames.has(id) ? { nameTh: thaiNames.get(id) } : {}),
+      ...(aliases.has(id) ? { aliases: aliases.get(id) } : {}),
+      line: lineOfStation.get(id) ?? '',
+      lat,
+      lng,
+    }]
+  })
+
+  // Transfers within one station or along one line are not interchanges
+  const interchanges = new Map<string, Interchange>()
+  for (const row of transfers) {
+    const unknown = [row.from_stop_id, row.to_stop_id].filter((id) => !stopsById.has(id))
+    if (unknown.length > 0) {
+      problems.push(`transfers.txt: unknown stop ${unknown.join(', ')}`)
+      continue
+    }
+    const pair = [stationOf(row.from_stop_id), stationOf(row.to_stop_id)].sort() as [string, string]
+    const [lineA, lineB] = pair.map((id) => lineOfStation.get(id))
+    if (!lineA || !lineB || lineA === lineB) continue
+
+    const seconds = Number(row.min_transfer_time)
+    const walkMinutes = row.min_transfer_time && !Number.isNaN(seconds) ? Math.ceil(seconds / 60) : DEFAULT_WALK_MINUTES
+    const key = pair.join('|')
+    // Transfers are listed each way; keep the slower
+    const existing = interchanges.get(key)
+    if (!existing || existing.walkMinutes < walkMinutes) interchanges.set(key, { stations: pair, walkMinutes })
+  }
+
+  if (problems.length > 0) throw new GtfsValidationError(problems)
+  // Only operators that run a line
+  const usedAgencies = agencies.filter((a) => lines.some((l) => l.agency === a.id))
+  return { agencies: usedAgencies, stations, lines, interchanges: [...interchanges.values()] }
+}
@@ -0,0 +1,90 @@
+import type { LogEntry, LogEntryV1, LogEvent, LogFile, LogSource, Station } from '../types'
+import { SERVICE_DAY_START_HOUR, addDays, getServiceDate, toBangkokTime, toBangkokTimestamp } from './time'
+import { getDayType } from './dayType'
+
+export const LOG_SCHEMA_VERSION = 2
+
+// Entries upgraded from v1 have no device of origin
+export const UNKNOWN_DEVICE = 'unknown'
+
+function isV2Entry(entry: LogEntry | LogEntryV1): entry is LogEntry {
+  return 'id' in entry
+}
+
+/**
+ * The id is derived from the old dedupe key, so every device upgrading the
+ * same v1 entry arrives at the same id.
+ */
+export function upgradeEntry(entry: LogEntry | LogEntryV1): LogEntry {
+  if (isV2Entry(entry)) return entry
+  const hour = Number(entry.time.slice(0, 2))
+  // `date` is the service date; after-midnight times fall on the next calendar day
+  const calendarDate = hour < SERVICE_DAY_START_HOUR ? addDays(entry.date, 1) : entry.date
+  return {
+    id: `v1:${entry.date}|${entry.time}|${entry.station}|${entry.direction}`,
+    timestamp: `${calendarDate}T${entry.time}:00+07:00`,
+    station: entry.station,
+    line: entry.line,
+    direction: entry.direction,
+    time: entry.time,
+    dayType: entry.dayType,
+    date: entry.date,
+    deviceId: UNKNOWN_DEVICE,
+    source: 'manual',
+    event: 'arrival',
+  }
+}
+
+/** Reads either a v1 array or a v2 file, always returning v2 entries. */
+export function parseLogFile(data: unknown): LogEntry[] {
+  if (Array.isArray(data)) return data.map(upgradeEntry)
+  const file = data as Partial<LogFile>
+  if (file.version === LOG_SCHEMA_VERSION && Array.isArray(file.entries)) {
+    return file.entries.map(upgradeEntry)
+  }
+  throw new Error(`Unsupported log file version: ${file.version}`)
+}
+
+export function serializeLogFile(entries: LogEntry[]): string {
+  const file: LogFile = { version: LOG_SCHEMA_VERSION, entries }
+  return JSON.stringify(file, null, 2)
+}
+
+export interface NewLogEntry {
+  station: Station
+  direction: string
+  deviceId: string
+  source: LogSource
+  event?: LogEvent
+  note?: string
+  holidayOverride?: boolean // manual holiday setting for the service date, if any
+}
+
+/** Builds a v2 entry for something that happened at `instant`. */
+export function createLogEntry(fields: NewLogEntry, instant: Date): LogEntry {
+  const { time } = toBangkokTime(instant)
+  // After midnight the train still belongs to yesterday's service
+  const date = getServiceDate(instant)
+  return {
+    id: crypto.randomUUID(),
+    timestamp: toBangkokTimestamp(instant),
+    station: fields.station.id,
+    line: fields.station.line,
+    direction: fields.direction,
+    time,
+    dayType: getDayType(date, fields.holidayOverride),
+    date,
+    deviceId: fields.deviceId,
+    source: fields.source,
+    event: fields.event ?? 'arrival',
+    ...(fields.note ? { note: fields.note } : {}),
+  }
+}
+
+/** Moves an entry to another time on the same service date, keeping the seconds. */
+export function withTime(entry: LogEntry, time: string): LogEntry {
+  const hour = Number(time.slice(0, 2))
+  const calendarDate = hour < SERVICE_DAY_START_HOUR ? addDays(entry.date, 1) : entry.date
+  const seconds = entry.timestamp.slice(17, 19) || '00'
+  return { ...entry, time, timestamp: `${calendarDate}T${time}:${seconds}+07:00` }
+}
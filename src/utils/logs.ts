@@ -0,0 +1,31 @@
+import type { LogEntry } from '../types'
+import { compareTimes } from './time'
+
+// Two entries with the same key are treated as the same observation.
+export function logKey(log: LogEntry): string {
+  return log.id
+}
+
+/** Adds `extra` to `logs`; an entry in `extra` replaces one with the same key. */
+export function mergeLogs(logs: LogEntry[], extra: LogEntry[]): LogEntry[] {
+  const replaced = new Map(extra.map((log) => [logKey(log), log]))
+  const kept = logs.filter((log) => !replaced.has(logKey(log)))
+  return [...kept, ...replaced.values()]
+}
+
+/**
+ * Deduplicates and sorts logs into the canonical order used on disk. Later
+ * entries win, so appending an edited entry replaces the old one.
+ */
+export function normalizeLogs(logs: LogEntry[]): LogEntry[] {
+  const unique = [...new Map(logs.map((log) => [logKey(log), log])).values()]
+
+  // Sort by station, direction, dayType, time
+  return unique.sort((a, b) =>
+    a.station.localeCompare(b.station)
+    || a.direction.localeCompare(b.direction)
+    || a.dayType.localeCompare(b.dayType)
+    || compareTimes(a.time, b.time)
+    || a.timestamp.localeCompare(b.timestamp),
+  )
+}
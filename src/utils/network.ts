@@ -0,0 +1,84 @@
+import type { Station } from '../types'
+import { stations } from '../data/stations'
+import { getLine } from '../data/lines'
+import { interchanges } from '../data/interchanges'
+
+const stationsById = new Map(stations.map((s) => [s.id, s]))
+
+function toStations(ids: string[]): Station[] {
+  return ids.flatMap((id) => stationsById.get(id) ?? [])
+}
+
+/** Station id sequences trains run in a direction, longest first. */
+export function getPatterns(lineId: string, directionId: string): string[][] {
+  return getLine(lineId)?.directions.find((d) => d.id === directionId)?.patterns ?? []
+}
+
+/** The full run in a direction: every station in calling order, terminus last. */
+export function getMainSequence(lineId: string, directionId: string): Station[] {
+  return toStations(getPatterns(lineId, directionId)[0] ?? [])
+}
+
+/**
+ * Station ids from `from` to `to` inclusive, as a train in the given
+ * direction calls at them, or null if no train runs from one to the other.
+ * On a loop the shortest ride wins.
+ */
+export function findPath(lineId: string, directionId: string, from: string, to: string): string[] | null {
+  let best: string[] | null = null
+  for (const pattern of getPatterns(lineId, directionId)) {
+    pattern.forEach((id, start) => {
+      if (id !== from) return
+      const end = pattern.indexOf(to, start + 1)
+      if (end !== -1 && (!best || end - start + 1 < best.length)) best = pattern.slice(start, end + 1)
+    })
+  }
+  return best
+}
+
+export interface Ride {
+  direction: string
+  stations: Station[]
+}
+
+/** The shorter ride between two stations on one line, in whichever direction gets there. */
+export function findRide(lineId: string, from: string, to: string): Ride | null {
+  const rides = (getLine(lineId)?.directions ?? []).flatMap((direction) => {
+    const path = findPath(lineId, direction.id, from, to)
+    return path ? [{ direction: direction.id, stations: toStations(path) }] : []
+  })
+  return rides.sort((a, b) => a.stations.length - b.stations.length)[0] ?? null
+}
+
+function neighbours(lineId: string, directionId: string, stationId: string, step: 1 | -1): Station[] {
+  const ids = new Set<string>()
+  for (const pattern of getPatterns(lineId, directionId)) {
+    pattern.forEach((id, i) => {
+      if (id === stationId && pattern[i + step]) ids.add(pattern[i + step])
+    })
+  }
+  return toStations([...ids])
+}
+
+/** Where a train calls after `stationId` — more than one past a branch point. */
+export function getNextStations(lineId: string, directionId: string, stationId: string): Station[] {
+  return neighbours(lineId, directionId, stationId, 1)
+}
+
+export function getPreviousStations(lineId: string, directionId: string, stationId: string): Station[] {
+  return neighbours(lineId, directionId, stationId, -1)
+}
+
+export interface InterchangeLink {
+  station: Station
+  walkMinutes: number
+}
+
+/** Stations on other lines reachable on foot from `stationId`. */
+export function getInterchanges(stationId: string): InterchangeLink[] {
+  return interchanges.flatMap(({ stations: [a, b], walkMinutes }) => {
+    const other = a === stationId ? b : b === stationId ? a : null
+    const station = other ? stationsById.get(other) : undefined
+    return station ? [{ station, walkMinutes }] : []
+  })
+}
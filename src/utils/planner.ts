@@ -0,0 +1,185 @@
+import type { DayDetail, DayType, LogEntry } from '../types'
+import { stations } from '../data/stations'
+import { getLine } from '../data/lines'
+import { getInterchanges, getNextStations } from './network'
+import { forecastHour, type PredictedSlot } from './prediction'
+import { hopMinutes, learnRunTimes, type RunTimes } from './runTimes'
+import { timeToMinutes } from './time'
+
+// Route search charges this for every boarding, so fewer changes win over
+// a marginally shorter ride
+const BOARDING_MINUTES = 4
+// Wait assumed when nothing is known about the line at that hour
+const DEFAULT_WAIT_MINUTES = 5
+// Upcoming departures listed per leg
+const DEPARTURES_SHOWN = 3
+
+export type RoutePart =
+  | { kind: 'ride'; line: string; direction: string; stations: string[] }
+  | { kind: 'walk'; from: string; to: string; minutes: number }
+
+const stationLine = new Map(stations.map((s) => [s.id, s.line]))
+
+// Nodes are either standing on a platform or sitting on a train in a direction
+const platformNode = (station: string) => station
+const rideNode = (station: string, direction: string) => `${station}|${direction}`
+
+interface Edge {
+  to: string
+  minutes: number
+}
+
+function edgesFrom(node: string, runTimes: RunTimes): Edge[] {
+  const [station, direction] = node.split('|')
+  const lineId = stationLine.get(station) ?? ''
+  if (direction === undefined) {
+    return [
+      ...(getLine(lineId)?.directions ?? []).map((d) => ({ to: rideNode(station, d.id), minutes: BOARDING_MINUTES })),
+      ...getInterchanges(station).map((link) => ({ to: platformNode(link.station.id), minutes: link.walkMinutes })),
+    ]
+  }
+  return [
+    { to: platformNode(station), minutes: 0 },
+    ...getNextStations(lineId, direction, station).map((next) => ({
+      to: rideNode(next.id, direction),
+      minutes: hopMinutes(runTimes, lineId, station, next.id),
+    })),
+  ]
+}
+
+/**
+ * The quickest way from any of `origins` to any of `destinations` (station
+ * ids, e.g. every platform of a complex), as rides and interchange walks.
+ * Null if the network doesn't connect them.
+ */
+export function findRoute(origins: string[], destinations: string[], runTimes: RunTimes = new Map()): RoutePart[] | null {
+  const cost = new Map(origins.map((id) => [platformNode(id), 0]))
+  const previous = new Map<string, string>()
+  const done = new Set<string>()
+  const goals = new Set(destinations.map(platformNode))
+
+  // The network is a few hundred nodes, so a linear scan for the nearest is enough
+  for (;;) {
+    let node: string | null = null
+    for (const [candidate, minutes] of cost) {
+      if (!done.has(candidate) && (node === null || minutes < cost.get(node)!)) node = candidate
+    }
+    if (node === null) return null
+    if (goals.has(node)) return toParts(node, previous)
+    done.add(node)
+
+    for (const edge of edgesFrom(node, runTimes)) {
+      const minutes = cost.get(node)! + edge.minutes
+      if (minutes < (cost.get(edge.to) ?? Infinity)) {
+        cost.set(edge.to, minutes)
+        previous.set(edge.to, node)
+      }
+    }
+  }
+}
+
+function toParts(goal: string, previous: Map<string, string>): RoutePart[] {
+  const path: string[] = []
+  for (let node: string | undefined = goal; node; node = previous.get(node)) path.unshift(node)
+
+  const parts: RoutePart[] = []
+  for (let i = 1; i < path.length; i++) {
+    const [from, fromDirection] = path[i - 1].split('|')
+    const [to, toDirection] = path[i].split('|')
+    const last = parts.at(-1)
+    if (fromDirection === undefined && toDirection === undefined) {
+      const walk = getInterchanges(from).find((link) => link.station.id === to)
+      parts.push({ kind: 'walk', from, to, minutes: walk?.walkMinutes ?? 0 })
+    } else if (fromDirection === undefined) {
+      parts.push({ kind: 'ride', line: stationLine.get(to) ?? '', direction: toDirection, stations: [to] })
+    } else if (toDirection !== undefined && last?.kind === 'ride') {
+      last.stations.push(to)
+    }
+  }
+  return parts
+}
+
+export interface RideLeg {
+  kind: 'ride'
+  line: string
+  direction: string
+  stations: string[] // calling order, boarding station first
+  board: number // service-day minutes (see `timeToMinutes`)
+  alight: number
+  slot: PredictedSlot | null // the predicted train caught; null when the wait is assumed
+  departures: PredictedSlot[] // upcoming predictions at the boarding station
+}
+
+export interface WalkLeg {
+  kind: 'walk'
+  from: string
+  to: string
+  start: number
+  minutes: number
+}
+
+export interface Journey {
+  legs: (RideLeg | WalkLeg)[]
+  depart: number // leaving the origin platform
+  arrive: number
+}
+
+export interface PlanContext {
+  dayType: DayType
+  detail?: DayDetail
+  now: Date
+  minutes: number // service-day minutes to plan from
+}
+
+interface Departure {
+  minutes: number
+  slot: PredictedSlot | null
+  departures: PredictedSlot[]
+}
+
+function nextDeparture(logs: LogEntry[], station: string, line: string, direction: string, after: number, context: PlanContext): Departure {
+  const hour = Math.floor(after / 60)
+  const forecasts = [hour, hour + 1].map((h) =>
+    forecastHour(logs, station, line, direction, context.dayType, h, context.now, context.detail),
+  )
+  const upcoming = forecasts
+    .flatMap((f) => f.slots)
+    .filter((slot) => timeToMinutes(slot.time) >= after)
+  if (upcoming.length > 0) {
+    return { minutes: timeToMinutes(upcoming[0].time), slot: upcoming[0], departures: upcoming.slice(0, DEPARTURES_SHOWN) }
+  }
+  // Without slots to aim for, expect to wait half a headway
+  const headway = forecasts.find((f) => f.headway)?.headway
+  const wait = headway ? Math.ceil(headway.minutes / 2) : DEFAULT_WAIT_MINUTES
+  return { minutes: after + wait, slot: null, departures: [] }
+}
+
+/**
+ * Plans a trip between two sets of platforms and times it from
+ * `context.minutes`: each ride catches the next predicted arrival at its
+ * boarding station (see `forecastHour`), takes the learned or default run
+ * times, and each change adds the interchange's walking allowance.
+ */
+export function planJourney(logs: LogEntry[], origins: string[], destinations: string[], context: PlanContext): Journey | null {
+  const runTimes = learnRunTimes(logs)
+  const route = findRoute(origins, destinations, runTimes)
+  if (!route) return null
+
+  let minutes = context.minutes
+  const legs = route.map((part): RideLeg | WalkLeg => {
+    if (part.kind === 'walk') {
+      const leg: WalkLeg = { ...part, start: minutes }
+      minutes += part.minutes
+      return leg
+    }
+    const departure = nextDeparture(logs, part.stations[0], part.line, part.direction, minutes, context)
+    let alight = departure.minutes
+    for (let i = 1; i < part.stations.length; i++) {
+      alight += hopMinutes(runTimes, part.line, part.stations[i - 1], part.stations[i])
+    }
+    minutes = Math.round(alight)
+    return { ...part, board: departure.minutes, alight: minutes, slot: departure.slot, departures: departure.departures }
+  })
+
+  return { legs, depart: context.minutes, arrive: minutes }
+}
@@ -1,37 +1,324 @@
-import type { DayType, LogEntry } from '../types'
+import type { DayDetail, DayType, LogEntry } from '../types'
+import { compareTimes, minutesToTime, timeToMinutes } from './time'
+import { learnRunTimes, projectArrivals, type RunTimes } from './runTimes'
+import { getDayDetail, toDayType } from './dayType'
+import { median } from './stats'
 
-function timeToMinutes(time: string): number {
-  const [h, m] = time.split(':').map(Number)
-  return h * 60 + m
+// Arrivals more than this far apart are never the same scheduled train
+const MAX_SLOT_SPAN_MINUTES = 3
+// A log's weight halves every HALF_LIFE_DAYS, so timetable changes win over time
+const HALF_LIFE_DAYS = 60
+// Pseudo-count that keeps slots seen on only one or two days at low confidence
+const CONFIDENCE_PRIOR = 2
+// How far around a slot we look to see which days were observed at all
+const SUPPORT_WINDOW_MINUTES = 30
+const MIN_CONFIDENCE = 0.15
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PredictedSlot {
+  kind: 'observed' | 'derived' | 'headway' // logged here, projected from upstream, or from headway
+  time: string // typical arrival, "HH:MM"
+  spread: number // ± minutes around `time`
+  samples: number // logs in this slot
+  confidence: number // 0–1
 }
 
-function minutesToTime(minutes: number): string {
-  const h = Math.floor(minutes / 60)
-  const m = minutes % 60
-  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
+interface Observation {
+  minutes: number
+  date: string
+  weight: number
 }
 
+function decayWeight(date: string, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - Date.parse(date)) / DAY_MS)
+  return 0.5 ** (ageDays / HALF_LIFE_DAYS)
+}
+
+function clusterObservations(observations: Observation[]): Observation[][] {
+  const sorted = [...observations].sort((a, b) => a.minutes - b.minutes)
+  const clusters: Observation[][] = []
+  for (const obs of sorted) {
+    const current = clusters.at(-1)
+    if (current && obs.minutes - current[0].minutes <= MAX_SLOT_SPAN_MINUTES) {
+      current.push(obs)
+    } else {
+      clusters.push([obs])
+    }
+  }
+  return clusters
+}
+
+// Sum of weights over distinct dates — a double-tap on one day counts once
+function weightedDates(observations: Observation[]): number {
+  const byDate = new Map<string, number>()
+  for (const obs of observations) byDate.set(obs.date, obs.weight)
+  return [...byDate.values()].reduce((sum, w) => sum + w, 0)
+}
+
+function summarise(cluster: Observation[], all: Observation[]): PredictedSlot {
+  const totalWeight = cluster.reduce((sum, o) => sum + o.weight, 0)
+  const mean = cluster.reduce((sum, o) => sum + o.minutes * o.weight, 0) / totalWeight
+  const variance = cluster.reduce((sum, o) => sum + o.weight * (o.minutes - mean) ** 2, 0) / totalWeight
+
+  // Support: of the days we were watching around this time, how many saw this train
+  const nearby = all.filter((o) => Math.abs(o.minutes - mean) <= SUPPORT_WINDOW_MINUTES)
+  const seen = weightedDates(cluster)
+  const support = seen / weightedDates(nearby)
+  const reliability = seen / (seen + CONFIDENCE_PRIOR)
+
+  return {
+    kind: 'observed',
+    time: minutesToTime(Math.round(mean)),
+    spread: Math.round(Math.sqrt(variance)),
+    samples: cluster.length,
+    confidence: support * reliability,
+  }
+}
+
+/**
+ * Estimates scheduled arrival slots in the given service-day hour (see
+ * `toServiceHour`) by clustering logged arrivals across dates. Older logs
+ * count for less.
+ */
 export function predictArrivals(
   logs: LogEntry[],
   station: string,
   direction: string,
   dayType: DayType,
   hour: number,
-): string[] {
-  const matching = logs.filter(
-    (log) =>
-      log.station === station &&
-      log.direction === direction &&
-      log.dayType === dayType,
-  )
+  now: Date = new Date(),
+): PredictedSlot[] {
+  const observations: Observation[] = logs
+    .filter(
+      (log) =>
+        log.station === station &&
+        log.direction === direction &&
+        log.dayType === dayType,
+    )
+    .map((log) => ({
+      minutes: timeToMinutes(log.time),
+      date: log.date,
+      weight: decayWeight(log.date, now),
+    }))
+
+  const hourStart = hour * 60
+  const hourEnd = hourStart + 60
+
+  return clusterObservations(observations)
+    .map((cluster) => summarise(cluster, observations))
+    .filter((slot) => {
+      const minutes = timeToMinutes(slot.time)
+      return minutes >= hourStart && minutes < hourEnd && slot.confidence >= MIN_CONFIDENCE
+    })
+}
+
+// Gaps outside this range are missed trains or double taps, not headways
+const MIN_HEADWAY_MINUTES = MAX_SLOT_SPAN_MINUTES + 1
+const MAX_HEADWAY_MINUTES = 30
+// Fewer observed slots than this in an hour triggers the headway fallback
+const MIN_OBSERVED_SLOTS = 2
+// Headway-projected slots never rank above this
+const MAX_HEADWAY_CONFIDENCE = 0.5
+// Slots derived from upstream stations carry run-time error on top
+const DERIVED_CONFIDENCE_FACTOR = 0.7
+
+export interface HeadwayEstimate {
+  minutes: number // typical interval between trains
+  samples: number // intervals the estimate is based on
+}
+
+/**
+ * Intervals between consecutive arrivals logged at any one station on one
+ * day, for a line and direction in the given hour. Implausible gaps (double
+ * taps, missed trains) are dropped.
+ */
+export function collectHeadwayGaps(
+  logs: LogEntry[],
+  line: string,
+  direction: string,
+  dayType: DayType,
+  hour: number,
+): number[] {
+  const hourStart = hour * 60
+  const hourEnd = hourStart + 60
+
+  // Group by station and date so each group is one person watching one platform
+  const runs = new Map<string, number[]>()
+  for (const log of logs) {
+    if (log.line !== line || log.direction !== direction || log.dayType !== dayType) continue
+    const minutes = timeToMinutes(log.time)
+    // Allow one headway either side so intervals spanning the hour edge count
+    if (minutes < hourStart - MAX_HEADWAY_MINUTES || minutes >= hourEnd + MAX_HEADWAY_MINUTES) continue
+    const key = `${log.station}|${log.date}`
+    runs.set(key, [...(runs.get(key) ?? []), minutes])
+  }
+
+  const gaps: number[] = []
+  for (const run of runs.values()) {
+    const sorted = [...new Set(run)].sort((a, b) => a - b)
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = sorted[i] - sorted[i - 1]
+      const midpoint = (sorted[i] + sorted[i - 1]) / 2
+      if (gap < MIN_HEADWAY_MINUTES || gap > MAX_HEADWAY_MINUTES) continue
+      if (midpoint < hourStart || midpoint >= hourEnd) continue
+      gaps.push(gap)
+    }
+  }
+  return gaps
+}
+
+/** Typical interval between trains for a line and direction in the given hour. */
+export function estimateHeadway(
+  logs: LogEntry[],
+  line: string,
+  direction: string,
+  dayType: DayType,
+  hour: number,
+): HeadwayEstimate | null {
+  const gaps = collectHeadwayGaps(logs, line, direction, dayType, hour)
+  if (gaps.length === 0) return null
+  return { minutes: Math.round(median(gaps)), samples: gaps.length }
+}
+
+export interface HourForecast {
+  slots: PredictedSlot[]
+  headway: HeadwayEstimate | null
+}
+
+// Most recent log at the station closest to the hour, to line headway slots up with
+function findAnchor(
+  logs: LogEntry[],
+  station: string,
+  direction: string,
+  dayType: DayType,
+  hour: number,
+): number | null {
+  const hourMid = hour * 60 + 30
+  const candidates = logs
+    .filter(
+      (log) =>
+        log.station === station &&
+        log.direction === direction &&
+        log.dayType === dayType &&
+        Math.abs(timeToMinutes(log.time) - hourMid) <= 90,
+    )
+    .sort((a, b) =>
+      b.date.localeCompare(a.date)
+      || Math.abs(timeToMinutes(a.time) - hourMid) - Math.abs(timeToMinutes(b.time) - hourMid),
+    )
+  return candidates.length > 0 ? timeToMinutes(candidates[0].time) : null
+}
+
+const runTimesCache = new WeakMap<LogEntry[], RunTimes>()
+
+function cachedRunTimes(logs: LogEntry[]): RunTimes {
+  let runTimes = runTimesCache.get(logs)
+  if (!runTimes) {
+    runTimes = learnRunTimes(logs)
+    runTimesCache.set(logs, runTimes)
+  }
+  return runTimes
+}
+
+function isNear(slot: PredictedSlot, others: PredictedSlot[], minutes: number): boolean {
+  const time = timeToMinutes(slot.time)
+  return others.some((other) => Math.abs(timeToMinutes(other.time) - time) < minutes)
+}
+
+function logDayDetail(log: LogEntry): DayDetail {
+  // The logged dayType already reflects any manual holiday override
+  return log.dayType === 'holiday' ? 'holiday' : getDayDetail(log.date, false)
+}
+
+const similarDaysCache = new WeakMap<LogEntry[], Map<DayDetail, LogEntry[]>>()
+
+// The same array each time for the same logs, so `cachedRunTimes` hits
+function cachedSimilarDays(logs: LogEntry[], detail: DayDetail): LogEntry[] {
+  let byDetail = similarDaysCache.get(logs)
+  if (!byDetail) {
+    byDetail = new Map()
+    similarDaysCache.set(logs, byDetail)
+  }
+  let similarDays = byDetail.get(detail)
+  if (!similarDays) {
+    similarDays = logs.filter((log) => logDayDetail(log) === detail)
+    byDetail.set(detail, similarDays)
+  }
+  return similarDays
+}
+
+/**
+ * Observed slots for the hour, topped up first with slots derived from
+ * upstream stations and then with headway-projected slots when the station
+ * has too little data of its own. If there is nothing to anchor the
+ * headway projection on, `slots` may be empty while `headway` is still set.
+ *
+ * With `detail`, logs from matching days only (e.g. Saturdays, bridge days)
+ * are tried first, falling back to the whole `dayType` when that is thin.
+ */
+export function forecastHour(
+  logs: LogEntry[],
+  station: string,
+  line: string,
+  direction: string,
+  dayType: DayType,
+  hour: number,
+  now: Date = new Date(),
+  detail?: DayDetail,
+): HourForecast {
+  if (detail && toDayType(detail) === dayType && detail !== dayType) {
+    const similarDays = cachedSimilarDays(logs, detail)
+    const fine = forecastHour(similarDays, station, line, direction, dayType, hour, now)
+    const logged = fine.slots.filter((slot) => slot.kind !== 'headway')
+    if (logged.length >= MIN_OBSERVED_SLOTS) return fine
+  }
+
+  const direct = predictArrivals(logs, station, direction, dayType, hour, now)
+  if (direct.length >= MIN_OBSERVED_SLOTS) {
+    return { slots: direct, headway: null }
+  }
+
+  const projected = projectArrivals(logs, cachedRunTimes(logs), station, line, direction)
+  const derived = predictArrivals(projected, station, direction, dayType, hour, now)
+    .filter((slot) => !isNear(slot, direct, MAX_SLOT_SPAN_MINUTES))
+    .map((slot): PredictedSlot => ({
+      ...slot,
+      kind: 'derived',
+      confidence: slot.confidence * DERIVED_CONFIDENCE_FACTOR,
+    }))
+  const observed = [...direct, ...derived].sort((a, b) => compareTimes(a.time, b.time))
+  if (observed.length >= MIN_OBSERVED_SLOTS) {
+    return { slots: observed, headway: null }
+  }
+
+  const headway = estimateHeadway(logs, line, direction, dayType, hour)
+  if (!headway) return { slots: observed, headway: null }
+
+  const anchor = observed.length > 0
+    ? timeToMinutes(observed[0].time)
+    : findAnchor(logs, station, direction, dayType, hour)
+  if (anchor === null) return { slots: observed, headway }
 
   const hourStart = hour * 60
   const hourEnd = hourStart + 60
+  const observedMinutes = observed.map((slot) => timeToMinutes(slot.time))
+  const confidence = MAX_HEADWAY_CONFIDENCE * (headway.samples / (headway.samples + CONFIDENCE_PRIOR))
 
-  const minutesInHour = matching
-    .map((log) => timeToMinutes(log.time))
-    .filter((m) => m >= hourStart && m < hourEnd)
+  // Step from the anchor to the first slot in the hour, then walk through it
+  let minutes = anchor - Math.floor((anchor - hourStart) / headway.minutes) * headway.minutes
+  const estimated: PredictedSlot[] = []
+  for (; minutes < hourEnd; minutes += headway.minutes) {
+    if (observedMinutes.some((m) => Math.abs(m - minutes) < headway.minutes / 2)) continue
+    estimated.push({
+      kind: 'headway',
+      time: minutesToTime(minutes),
+      spread: Math.ceil(headway.minutes / 2),
+      samples: headway.samples,
+      confidence,
+    })
+  }
 
-  const unique = [...new Set(minutesInHour)].sort((a, b) => a - b)
-  return unique.map(minutesToTime)
+  const slots = [...observed, ...estimated].sort((a, b) => compareTimes(a.time, b.time))
+  return { slots, headway }
 }
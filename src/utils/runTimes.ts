@@ -0,0 +1,98 @@
+import type { LogEntry } from '../types'
+import { getLine } from '../data/lines'
+import { findPath, getPatterns } from './network'
+import { SERVICE_DAY_START_HOUR, compareTimes, minutesToTime, timeToMinutes } from './time'
+import { median } from './stats'
+
+// A train takes at least this long per hop; anything faster is two trains
+const MIN_HOP_MINUTES = 1
+// ...and at most this long; anything slower is a later train
+const MAX_HOP_MINUTES = 6
+// Errors add up with every hop, so don't project further than this
+const MAX_PROJECTION_HOPS = 8
+
+function hopKey(from: string, to: string): string {
+  return `${from}>${to}`
+}
+
+/** Median minutes per hop, learned from the logs and keyed "fromId>toId". */
+export type RunTimes = Map<string, number>
+
+/**
+ * Learns hop times from same-train sequences: logs on one date, line and
+ * direction at successive stations whose gap is plausible for a single
+ * train. A gap spanning several hops is spread evenly across them.
+ */
+export function learnRunTimes(logs: LogEntry[]): RunTimes {
+  const byRide = new Map<string, LogEntry[]>()
+  for (const log of logs) {
+    const key = `${log.date}|${log.line}|${log.direction}`
+    byRide.set(key, [...(byRide.get(key) ?? []), log])
+  }
+
+  const samples = new Map<string, number[]>()
+  for (const ride of byRide.values()) {
+    const { line, direction } = ride[0]
+    const sorted = [...ride].sort((a, b) => compareTimes(a.time, b.time))
+
+    for (let i = 1; i < sorted.length; i++) {
+      const path = findPath(line, direction, sorted[i - 1].station, sorted[i].station)
+      if (!path) continue
+      const hops = path.length - 1
+
+      const perHop = (timeToMinutes(sorted[i].time) - timeToMinutes(sorted[i - 1].time)) / hops
+      if (perHop < MIN_HOP_MINUTES || perHop > MAX_HOP_MINUTES) continue
+
+      for (let h = 0; h < hops; h++) {
+        const key = hopKey(path[h], path[h + 1])
+        samples.set(key, [...(samples.get(key) ?? []), perHop])
+      }
+    }
+  }
+
+  return new Map([...samples].map(([key, values]) => [key, median(values)]))
+}
+
+/** Minutes between adjacent stations: learned, then per-hop override, then the line default. */
+export function hopMinutes(runTimes: RunTimes, lineId: string, from: string, to: string): number {
+  const key = hopKey(from, to)
+  const line = getLine(lineId)
+  return runTimes.get(key) ?? line?.runTimes?.[key] ?? line?.runMinutes ?? 2
+}
+
+/**
+ * Projects arrivals logged at upstream stations onto `station` by adding
+ * the run time between them. The returned entries are synthetic — they
+ * carry the target station but were never logged there.
+ */
+export function projectArrivals(
+  logs: LogEntry[],
+  runTimes: RunTimes,
+  station: string,
+  line: string,
+  direction: string,
+): LogEntry[] {
+  // Cumulative minutes from each upstream station to the target. A loop
+  // reaches the target more than once; the nearest upstream call wins.
+  const offsets = new Map<string, number>()
+  for (const pattern of getPatterns(line, direction)) {
+    pattern.forEach((id, target) => {
+      if (id !== station) return
+      let minutes = 0
+      for (let i = target - 1; i >= Math.max(0, target - MAX_PROJECTION_HOPS); i--) {
+        minutes += hopMinutes(runTimes, line, pattern[i], pattern[i + 1])
+        if (pattern[i] === station) break
+        offsets.set(pattern[i], Math.min(offsets.get(pattern[i]) ?? Infinity, minutes))
+      }
+    })
+  }
+
+  return logs.flatMap((log) => {
+    const offset = offsets.get(log.station)
+    if (offset === undefined || log.line !== line || log.direction !== direction) return []
+    const arrival = Math.round(timeToMinutes(log.time) + offset)
+    // Past the end of the service day
+    if (arrival >= (24 + SERVICE_DAY_START_HOUR) * 60) return []
+    return [{ ...log, station, time: minutesToTime(arrival) }]
+  })
+}
@@ -0,0 +1,72 @@
+// All times are Bangkok wall-clock time, whatever the device's timezone.
+// Thailand has no daylight saving, so a fixed offset is exact.
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000
+
+// Trains running after midnight belong to the previous day's service
+export const SERVICE_DAY_START_HOUR = 3
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+/**
+ * Minutes since midnight at the start of the service day. Times before
+ * SERVICE_DAY_START_HOUR count past 24:00, so 00:30 sorts after 23:50.
+ */
+export function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return (h < SERVICE_DAY_START_HOUR ? h + 24 : h) * 60 + m
+}
+
+export function minutesToTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24
+  const m = minutes % 60
+  return `${pad(h)}:${pad(m)}`
+}
+
+export function compareTimes(a: string, b: string): number {
+  return timeToMinutes(a) - timeToMinutes(b)
+}
+
+export interface BangkokTime {
+  date: string // calendar date, "YYYY-MM-DD"
+  time: string // "HH:MM"
+  hours: number
+  minutes: number
+  seconds: number
+}
+
+export function toBangkokTime(instant: Date): BangkokTime {
+  const shifted = new Date(instant.getTime() + BANGKOK_OFFSET_MS)
+  const hours = shifted.getUTCHours()
+  const minutes = shifted.getUTCMinutes()
+  return {
+    date: shifted.toISOString().slice(0, 10),
+    time: `${pad(hours)}:${pad(minutes)}`,
+    hours,
+    minutes,
+    seconds: shifted.getUTCSeconds(),
+  }
+}
+
+/** The service day an instant belongs to, as "YYYY-MM-DD". */
+export function getServiceDate(instant: Date): string {
+  const serviceStart = new Date(instant.getTime() - SERVICE_DAY_START_HOUR * 60 * 60 * 1000)
+  return toBangkokTime(serviceStart).date
+}
+
+/** Hour of the service day: 3–26, with after-midnight hours past 23. */
+export function toServiceHour(hours: number): number {
+  return hours < SERVICE_DAY_START_HOUR ? hours + 24 : hours
+}
+
+/** Adds whole days to a "YYYY-MM-DD" date. */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/** ISO 8601 timestamp with seconds in Bangkok time, e.g. "2026-02-24T18:23:05+07:00". */
+export function toBangkokTimestamp(instant: Date): string {
+  const { date, time, seconds } = toBangkokTime(instant)
+  return `${date}T${time}:${pad(seconds)}+07:00`
+}
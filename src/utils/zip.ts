@@ -0,0 +1,72 @@
+// A minimal ZIP writer: files are stored uncompressed, which every unzip
+// tool and GTFS consumer reads, and keeps the app free of a zip library.
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_RECORD_SIZE = 22
+const VERSION = 20 // 2.0, the first with folders; enough for stored files
+const UTF8_NAMES = 0x0800
+// 1980-01-01 00:00, the earliest DOS date, so the same files always zip to the same bytes
+const DOS_DATE = (1 << 5) | 1
+
+/** Packs `files` (name → contents) into a ZIP archive, in the order given. */
+export function zipFiles(files: Record<string, Uint8Array>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const entries = Object.entries(files).map(([name, data]) => ({ name: encoder.encode(name), data, crc: crc32(data) }))
+
+  const localSize = entries.reduce((sum, e) => sum + LOCAL_HEADER_SIZE + e.name.length + e.data.length, 0)
+  const centralSize = entries.reduce((sum, e) => sum + CENTRAL_HEADER_SIZE + e.name.length, 0)
+  const bytes = new Uint8Array(localSize + centralSize + END_RECORD_SIZE)
+  const view = new DataView(bytes.buffer)
+
+  let offset = 0
+  const offsets = entries.map((entry) => {
+    const start = offset
+    view.setUint32(offset, 0x04034b50, true)
+    view.setUint16(offset + 4, VERSION, true)
+    view.setUint16(offset + 6, UTF8_NAMES, true)
+    view.setUint16(offset + 12, DOS_DATE, true)
+    view.setUint32(offset + 14, entry.crc, true)
+    view.setUint32(offset + 18, entry.data.length, true)
+    view.setUint32(offset + 22, entry.data.length, true)
+    view.setUint16(offset + 26, entry.name.length, true)
+    bytes.set(entry.name, offset + LOCAL_HEADER_SIZE)
+    bytes.set(entry.data, offset + LOCAL_HEADER_SIZE + entry.name.length)
+    offset += LOCAL_HEADER_SIZE + entry.name.length + entry.data.length
+    return start
+  })
+
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014b50, true)
+    view.setUint16(offset + 4, VERSION, true)
+    view.setUint16(offset + 6, VERSION, true)
+    view.setUint16(offset + 8, UTF8_NAMES, true)
+    view.setUint16(offset + 14, DOS_DATE, true)
+    view.setUint32(offset + 16, entry.crc, true)
+    view.setUint32(offset + 20, entry.data.length, true)
+    view.setUint32(offset + 24, entry.data.length, true)
+    view.setUint16(offset + 28, entry.name.length, true)
+    view.setUint32(offset + 42, offsets[i], true)
+    bytes.set(entry.name, offset + CENTRAL_HEADER_SIZE)
+    offset += CENTRAL_HEADER_SIZE + entry.name.length
+  })
+
+  view.setUint32(offset, 0x06054b50, true)
+  view.setUint16(offset + 8, entries.length, true)
+  view.setUint16(offset + 10, entries.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, localSize, true)
+  return bytes
+}